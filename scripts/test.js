@@ -0,0 +1,200 @@
+// Behaviour checks run by `npm test` against the compiled package in dist/.
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, test } from 'node:test';
+import Database from 'better-sqlite3';
+import { generateText, streamText, wrapLanguageModel } from 'ai';
+import { MockLanguageModelV2, convertArrayToReadableStream } from 'ai/test';
+import {
+  BudgetExceededError,
+  SCHEMA_VERSION,
+  checkSchema,
+  createRedactor,
+  createUsageLoggerMiddleware,
+  migrateDatabase,
+  openUsageReader,
+  replayCall,
+} from '../dist/index.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-usage-test-'));
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+let dbCount = 0;
+const newDbPath = () => path.join(tempDir, `usage-${(dbCount += 1)}.db`);
+
+const usage = { inputTokens: 5, outputTokens: 3, totalTokens: 8 };
+
+function mockModel(text, calls = []) {
+  return new MockLanguageModelV2({
+    modelId: 'mock-model',
+    doGenerate: async (options) => {
+      calls.push(options);
+      return { content: [{ type: 'text', text }], finishReason: 'stop', usage, warnings: [] };
+    },
+    doStream: async (options) => {
+      calls.push(options);
+      return {
+        stream: convertArrayToReadableStream([
+          { type: 'stream-start', warnings: [] },
+          { type: 'text-start', id: '1' },
+          { type: 'text-delta', id: '1', delta: text },
+          { type: 'text-end', id: '1' },
+          { type: 'finish', finishReason: 'stop', usage },
+        ]),
+      };
+    },
+  });
+}
+
+async function logOneCall(dbPath, options = {}) {
+  const middleware = createUsageLoggerMiddleware({ dirPath: path.dirname(dbPath), fileName: path.basename(dbPath), ...options });
+  try {
+    await generateText({
+      model: wrapLanguageModel({ model: mockModel('original answer'), middleware }),
+      prompt: 'What is the capital of France?',
+      temperature: 0.3,
+      providerOptions: { usageLogger: { tags: ['geo'] } },
+    });
+  } finally {
+    await middleware.close();
+  }
+}
+
+function listRows(dbPath) {
+  const reader = openUsageReader(dbPath);
+  try {
+    return [...reader.iterateCalls({})];
+  } finally {
+    reader.close?.();
+  }
+}
+
+test('replay sends the stored call to the given model and logs it as a replay', async () => {
+  const dbPath = newDbPath();
+  await logOneCall(dbPath);
+  const [original] = listRows(dbPath);
+
+  const calls = [];
+  const result = await replayCall(dbPath, original.id, { model: mockModel('replayed answer', calls) });
+
+  assert.equal(calls.length, 1);
+  assert.deepEqual(calls[0].prompt, JSON.parse(original.prompt_json));
+  assert.equal(calls[0].temperature, 0.3);
+  assert.equal(result.replay?.replay_of, original.id);
+  assert.match(result.replay?.content_json ?? '', /replayed answer/);
+  assert.deepEqual(JSON.parse(result.replay?.tags_json ?? 'null'), ['geo']);
+  assert.equal(listRows(dbPath).length, 2);
+});
+
+test('replay through doStream logs the streamed result', async () => {
+  const dbPath = newDbPath();
+  await logOneCall(dbPath);
+  const [original] = listRows(dbPath);
+
+  const result = await replayCall(dbPath, original.id, { model: mockModel('streamed answer'), stream: true });
+
+  assert.equal(result.replay?.replay_of, original.id);
+  assert.match(result.replay?.content_json ?? '', /streamed answer/);
+});
+
+test('streamed calls are saved before close resolves', async () => {
+  const dbPath = newDbPath();
+  const middleware = createUsageLoggerMiddleware({ dirPath: path.dirname(dbPath), fileName: path.basename(dbPath) });
+  const result = streamText({ model: wrapLanguageModel({ model: mockModel('hello'), middleware }), prompt: 'Hi' });
+  await result.consumeStream();
+  await middleware.close();
+
+  assert.equal(listRows(dbPath).length, 1);
+});
+
+test('redaction masks matches in every redactable field, including call options', () => {
+  const redact = createRedactor({ detectors: ['email'] });
+  const row = redact({
+    timestamp: new Date(),
+    inputText: 'mail ada@example.com',
+    promptJson: [{ role: 'user', content: [{ type: 'text', text: 'ada@example.com' }] }],
+    callOptionsJson: { providerOptions: { openai: { user: 'ada@example.com' } } },
+  });
+
+  assert.equal(row.inputText, 'mail [REDACTED:email]');
+  assert.equal(row.promptJson[0].content[0].text, '[REDACTED:email]');
+  assert.equal(row.callOptionsJson.providerOptions.openai.user, '[REDACTED:email]');
+  assert.deepEqual(
+    row.redactions.map((hit) => hit.field).sort(),
+    ['callOptionsJson', 'inputText', 'promptJson']
+  );
+});
+
+test('drop rules clear the whole field and leave the others', () => {
+  const redact = createRedactor({ detectors: [], rules: [{ name: 'secret', pattern: /secret/, mode: 'drop', fields: ['inputText'] }] });
+  const row = redact({ timestamp: new Date(), inputText: 'a secret', contentJson: [{ type: 'text', text: 'a secret' }] });
+
+  assert.equal(row.inputText, null);
+  assert.equal(row.contentJson[0].text, 'a secret');
+});
+
+test('budgets reject calls over the limit without calling the model and log them', async () => {
+  const dbPath = newDbPath();
+  const middleware = createUsageLoggerMiddleware({
+    dirPath: path.dirname(dbPath),
+    fileName: path.basename(dbPath),
+    budgets: { rules: [{ period: 'day', maxTokens: 10 }], refreshIntervalMs: 0 },
+  });
+  const calls = [];
+  const model = wrapLanguageModel({ model: mockModel('ok', calls), middleware });
+  try {
+    await generateText({ model, prompt: 'first' });
+    await generateText({ model, prompt: 'second' });
+    await assert.rejects(generateText({ model, prompt: 'third' }), (err) => err instanceof BudgetExceededError);
+  } finally {
+    await middleware.close();
+  }
+
+  assert.equal(calls.length, 2);
+  const finishReasons = listRows(dbPath).map((row) => row.finish_reason);
+  assert.deepEqual(finishReasons.sort(), ['budget_exceeded', 'stop', 'stop']);
+});
+
+test('migrations bring a new database to the current version once', () => {
+  const db = new Database(newDbPath());
+  try {
+    const first = migrateDatabase(db);
+    assert.equal(first.to, SCHEMA_VERSION);
+    assert.deepEqual(checkSchema(db), { status: 'current', version: SCHEMA_VERSION, expected: SCHEMA_VERSION });
+
+    const second = migrateDatabase(db);
+    assert.equal(second.from, SCHEMA_VERSION);
+    assert.equal(second.to, SCHEMA_VERSION);
+  } finally {
+    db.close();
+  }
+});
+
+test('migrations upgrade a database created before schema versions', () => {
+  const dbPath = newDbPath();
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE llm_calls (
+      id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))), timestamp TEXT NOT NULL,
+      model_id TEXT, tags_json TEXT, input_text TEXT, content_json TEXT,
+      input_tokens INTEGER, output_tokens INTEGER, total_tokens INTEGER, cached_input_tokens INTEGER, reasoning_tokens INTEGER,
+      request_tools_json TEXT, temperature REAL, top_p REAL, max_output_tokens INTEGER,
+      finish_reason TEXT, latency_ms INTEGER, warnings_json TEXT, request_id TEXT, response_id TEXT,
+      headers_json TEXT, meta_json TEXT, error_json TEXT
+    );
+    INSERT INTO llm_calls (id, timestamp, model_id, total_tokens) VALUES ('old', '2024-01-01T00:00:00.000Z', 'gpt-4o', 42);
+  `);
+  try {
+    migrateDatabase(db);
+    assert.equal(checkSchema(db).status, 'current');
+  } finally {
+    db.close();
+  }
+
+  const [row] = listRows(dbPath);
+  assert.equal(row.id, 'old');
+  assert.equal(row.total_tokens, 42);
+  assert.equal(row.call_type, 'text');
+});
@@ -0,0 +1,330 @@
+import crypto from 'node:crypto';
+import { isErrorRow, percentile } from './dashboard/analytics.js';
+import { parseTags } from './dashboard/format.js';
+import type { PricingRegistry } from './pricing.js';
+import type { UsageReader } from './storage/types.js';
+import type { LLMCallRow } from './types.js';
+
+export type AlertKind = 'errorRate' | 'latencyP95' | 'tokenSpike' | 'unknownModel';
+
+type AlertScope = {
+  tag?: string;                    // only calls with this tag
+  model?: string;                  // only calls to this model
+};
+
+export type ErrorRateAlertRule = AlertScope & {
+  kind: 'errorRate';
+  name?: string;
+  threshold: number;               // share of failed calls, 0..1
+  windowMs?: number;               // default 5 minutes
+  minCalls?: number;               // default 10
+};
+
+export type LatencyAlertRule = AlertScope & {
+  kind: 'latencyP95';
+  name?: string;
+  thresholdMs: number;
+  windowMs?: number;               // default 5 minutes
+  minCalls?: number;               // default 10
+};
+
+export type TokenSpikeAlertRule = {
+  kind: 'tokenSpike';
+  name?: string;
+  tag?: string;                    // watch one tag; by default every tag is watched separately
+  factor?: number;                 // recent window vs. baseline average, default 3
+  windowMs?: number;               // recent window, default 5 minutes
+  baselineMs?: number;             // history the baseline is averaged over, default 1 hour
+  minTokens?: number;              // ignore spikes below this many tokens, default 1000
+};
+
+export type UnknownModelAlertRule = {
+  kind: 'unknownModel';
+  name?: string;
+  knownModels?: string[];          // default: every model the pricing registry can price
+};
+
+export type AlertRule = ErrorRateAlertRule | LatencyAlertRule | TokenSpikeAlertRule | UnknownModelAlertRule;
+
+export type AlertWebhook = string | { url: string; headers?: Record<string, string> };
+
+export type AlertOptions = {
+  rules: AlertRule[];
+  onAlert?: (alert: Alert) => void | Promise<void>;
+  webhooks?: AlertWebhook[];       // each receives the alert as a JSON POST body
+  cooldownMs?: number;             // an alert with the same key is not repeated within this time, default 15 minutes
+};
+
+export type Alert = {
+  id: string;
+  firedAt: string;
+  rule: string;
+  kind: AlertKind;
+  key: string;                     // deduplication key: rule plus the tag or model it fired for
+  message: string;
+  value: number | null;
+  threshold: number | null;
+  details: Record<string, unknown>;
+};
+
+export type AlertDelivery = {
+  target: string;                  // 'callback' or the webhook URL
+  ok: boolean;
+  error?: string;
+};
+
+export type StoredAlert = Alert & {
+  deliveries: AlertDelivery[];
+};
+
+export type AlertMonitor = {
+  /** Evaluates the rules with a newly saved row, then delivers and stores any alerts. */
+  observe: (row: LLMCallRow) => Promise<StoredAlert[]>;
+};
+
+type Observation = {
+  time: number;
+  modelId: string | null;
+  tags: string[];
+  isError: boolean;
+  latencyMs: number | null;
+  totalTokens: number;
+};
+
+type Candidate = Omit<Alert, 'id' | 'firedAt'>;
+
+const DEFAULT_WINDOW_MS = 5 * 60_000;
+const DEFAULT_BASELINE_MS = 60 * 60_000;
+const DEFAULT_COOLDOWN_MS = 15 * 60_000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Evaluates alert rules over rolling windows of recent calls held in memory.
+ * When a reader is available the windows are seeded from storage, so
+ * baselines survive restarts. Alerts sharing a key are suppressed for
+ * `cooldownMs`; delivered alerts are kept through `saveAlert`.
+ */
+export function createAlertMonitor(
+  options: AlertOptions,
+  dependencies: {
+    pricing: PricingRegistry;
+    reader?: UsageReader | null;
+    saveAlert?: (alert: StoredAlert) => Promise<void>;
+  }
+): AlertMonitor {
+  const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  const rules = options.rules.map((rule) => ({ rule, name: rule.name ?? defaultRuleName(rule) }));
+  const retentionMs = Math.max(
+    DEFAULT_WINDOW_MS,
+    ...options.rules.map((rule) => ('windowMs' in rule && rule.windowMs) || 0),
+    ...options.rules.map((rule) => (rule.kind === 'tokenSpike' ? rule.baselineMs ?? DEFAULT_BASELINE_MS : 0))
+  );
+
+  const history: Observation[] = dependencies.reader ? seedHistory(dependencies.reader, retentionMs) : [];
+  const lastFired = new Map<string, number>();
+
+  const evaluate = (current: Observation): Candidate[] => {
+    const candidates: Candidate[] = [];
+    for (const { rule, name } of rules) {
+      if (rule.kind === 'errorRate' || rule.kind === 'latencyP95') {
+        if (!inScope(rule, current)) continue;
+        const windowMs = rule.windowMs ?? DEFAULT_WINDOW_MS;
+        const windowRows = history.filter((entry) => entry.time > current.time - windowMs && inScope(rule, entry));
+        if (windowRows.length < (rule.minCalls ?? 10)) continue;
+        const key = [name, rule.tag, rule.model].filter(Boolean).join('|');
+
+        if (rule.kind === 'errorRate') {
+          const errorRate = windowRows.filter((entry) => entry.isError).length / windowRows.length;
+          if (errorRate < rule.threshold) continue;
+          candidates.push({
+            rule: name,
+            kind: rule.kind,
+            key,
+            message: `Error rate ${(errorRate * 100).toFixed(1)}% over the last ${formatWindow(windowMs)} (threshold ${(rule.threshold * 100).toFixed(1)}%).`,
+            value: errorRate,
+            threshold: rule.threshold,
+            details: { calls: windowRows.length, windowMs, tag: rule.tag ?? null, model: rule.model ?? null },
+          });
+        } else {
+          const latencies = windowRows
+            .map((entry) => entry.latencyMs)
+            .filter((value): value is number => value != null)
+            .sort((a, b) => a - b);
+          const p95 = percentile(latencies, 95);
+          if (p95 == null || p95 < rule.thresholdMs) continue;
+          candidates.push({
+            rule: name,
+            kind: rule.kind,
+            key,
+            message: `p95 latency ${p95} ms over the last ${formatWindow(windowMs)} (threshold ${rule.thresholdMs} ms).`,
+            value: p95,
+            threshold: rule.thresholdMs,
+            details: { calls: latencies.length, windowMs, tag: rule.tag ?? null, model: rule.model ?? null },
+          });
+        }
+      } else if (rule.kind === 'tokenSpike') {
+        const windowMs = rule.windowMs ?? DEFAULT_WINDOW_MS;
+        const baselineMs = Math.max(rule.baselineMs ?? DEFAULT_BASELINE_MS, windowMs * 2);
+        const factor = rule.factor ?? 3;
+        const tags = rule.tag != null ? current.tags.filter((tag) => tag === rule.tag) : current.tags;
+
+        for (const tag of tags) {
+          let recent = 0;
+          let earlier = 0;
+          for (const entry of history) {
+            if (!entry.tags.includes(tag) || entry.time <= current.time - baselineMs) continue;
+            if (entry.time > current.time - windowMs) recent += entry.totalTokens;
+            else earlier += entry.totalTokens;
+          }
+          const baseline = earlier / ((baselineMs - windowMs) / windowMs);
+          if (recent < (rule.minTokens ?? 1000) || recent < baseline * factor) continue;
+          candidates.push({
+            rule: name,
+            kind: rule.kind,
+            key: `${name}|${tag}`,
+            message: `Tag "${tag}" used ${recent} tokens in the last ${formatWindow(windowMs)}, ${baseline ? `${(recent / baseline).toFixed(1)}×` : 'far above'} its average of ${Math.round(baseline)}.`,
+            value: recent,
+            threshold: Math.round(baseline * factor),
+            details: { tag, windowMs, baselineMs, baselineTokens: baseline, factor },
+          });
+        }
+      } else if (rule.kind === 'unknownModel') {
+        const modelId = current.modelId;
+        if (!modelId) continue;
+        const known = rule.knownModels
+          ? rule.knownModels.includes(modelId)
+          : dependencies.pricing.resolve(modelId) !== undefined;
+        if (known) continue;
+        candidates.push({
+          rule: name,
+          kind: rule.kind,
+          key: `${name}|${modelId}`,
+          message: `Calls are being made to unknown model "${modelId}".`,
+          value: null,
+          threshold: null,
+          details: { model: modelId },
+        });
+      }
+    }
+    return candidates;
+  };
+
+  const deliver = async (alert: Alert): Promise<AlertDelivery[]> => {
+    const deliveries: AlertDelivery[] = [];
+    if (options.onAlert) {
+      try {
+        await options.onAlert(alert);
+        deliveries.push({ target: 'callback', ok: true });
+      } catch (err) {
+        deliveries.push({ target: 'callback', ok: false, error: errorMessage(err) });
+      }
+    }
+    for (const webhook of options.webhooks ?? []) {
+      const { url, headers } = typeof webhook === 'string' ? { url: webhook, headers: undefined } : webhook;
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...headers },
+          body: JSON.stringify(alert),
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        deliveries.push(response.ok
+          ? { target: url, ok: true }
+          : { target: url, ok: false, error: `HTTP ${response.status}` });
+      } catch (err) {
+        deliveries.push({ target: url, ok: false, error: errorMessage(err) });
+      }
+    }
+    for (const failed of deliveries.filter((delivery) => !delivery.ok)) {
+      process.emitWarning(`Unable to deliver alert "${alert.rule}" to ${failed.target}: ${failed.error}`, {
+        code: 'LLM_USAGE_ALERT_DELIVERY_FAILURE',
+      });
+    }
+    return deliveries;
+  };
+
+  const observe = async (row: LLMCallRow): Promise<StoredAlert[]> => {
+    const current = toObservation(row);
+    history.push(current);
+    while (history.length && history[0].time <= current.time - retentionMs) history.shift();
+
+    const fired: StoredAlert[] = [];
+    for (const candidate of evaluate(current)) {
+      const previous = lastFired.get(candidate.key);
+      if (previous != null && current.time - previous < cooldownMs) continue;
+      lastFired.set(candidate.key, current.time);
+
+      const alert: Alert = {
+        id: crypto.randomBytes(16).toString('hex'),
+        firedAt: new Date(current.time).toISOString(),
+        ...candidate,
+      };
+      const stored: StoredAlert = { ...alert, deliveries: await deliver(alert) };
+      try {
+        await dependencies.saveAlert?.(stored);
+      } catch (err) {
+        process.emitWarning(`Unable to save alert "${alert.rule}": ${errorMessage(err)}`, {
+          code: 'LLM_USAGE_ALERT_SAVE_FAILURE',
+        });
+      }
+      fired.push(stored);
+    }
+    return fired;
+  };
+
+  return { observe };
+}
+
+function seedHistory(reader: UsageReader, retentionMs: number): Observation[] {
+  const rows = reader.listAnalyticsRows({ from: new Date(Date.now() - retentionMs) });
+  return rows
+    .map((row) => ({
+      time: Date.parse(row.timestamp),
+      modelId: row.model_id ?? null,
+      tags: parseTags(row.tags_json),
+      isError: isErrorRow(row),
+      latencyMs: row.latency_ms ?? null,
+      totalTokens: row.total_tokens ?? 0,
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+function toObservation(row: LLMCallRow): Observation {
+  return {
+    time: row.timestamp.getTime(),
+    modelId: row.modelId ?? null,
+    tags: row.tags ?? [],
+    isError: Boolean(row.error) || row.finishReason === 'error',
+    latencyMs: row.latencyMs ?? null,
+    totalTokens: row.totalTokens ?? 0,
+  };
+}
+
+function inScope(scope: AlertScope, entry: Observation): boolean {
+  if (scope.tag != null && !entry.tags.includes(scope.tag)) return false;
+  if (scope.model != null && entry.modelId !== scope.model) return false;
+  return true;
+}
+
+function defaultRuleName(rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'errorRate':
+      return `error rate ≥ ${(rule.threshold * 100).toFixed(0)}%`;
+    case 'latencyP95':
+      return `p95 latency ≥ ${rule.thresholdMs} ms`;
+    case 'tokenSpike':
+      return `token spike ×${rule.factor ?? 3}`;
+    case 'unknownModel':
+      return 'unknown model';
+  }
+}
+
+function formatWindow(windowMs: number): string {
+  if (windowMs % 3_600_000 === 0) return `${windowMs / 3_600_000} h`;
+  if (windowMs % 60_000 === 0) return `${windowMs / 60_000} min`;
+  return `${Math.round(windowMs / 1000)} s`;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,92 @@
+/** Who a call is billed to and what it was for. */
+export type Attribution = {
+  userId?: string | null;          // end user the call was made for
+  tenantId?: string | null;        // customer or workspace the user belongs to
+  feature?: string | null;         // product feature that made the call, e.g. 'chat' or 'summarise'
+  attributes?: Record<string, string | number | boolean> | null;  // any other dimensions, stored as strings
+};
+
+export type AttributionContext = {
+  params: any;                     // LanguageModelV2 call options, including providerOptions
+  modelId: string | null;
+  tags: string[];
+};
+
+/**
+ * Derives attribution for every call, e.g. from request-scoped state such as
+ * an AsyncLocalStorage store. Values passed per call in
+ * `providerOptions.usageLogger` take precedence; attributes are merged.
+ */
+export type AttributionResolver = (context: AttributionContext) => Attribution | null | undefined | Promise<Attribution | null | undefined>;
+
+/** Attribution as stored on a row: ids trimmed and attribute values turned into strings. */
+export type ResolvedAttribution = {
+  userId?: string;
+  tenantId?: string;
+  feature?: string;
+  attributes?: Record<string, string>;
+};
+
+/** Reads and normalises attribution fields, ignoring blank or malformed values. */
+export function readAttribution(source: unknown): ResolvedAttribution {
+  if (!source || typeof source !== 'object') return {};
+  const input = source as Record<string, unknown>;
+  const resolved: ResolvedAttribution = {};
+  const userId = readId(input.userId);
+  if (userId) resolved.userId = userId;
+  const tenantId = readId(input.tenantId);
+  if (tenantId) resolved.tenantId = tenantId;
+  const feature = readId(input.feature);
+  if (feature) resolved.feature = feature;
+
+  if (input.attributes && typeof input.attributes === 'object' && !Array.isArray(input.attributes)) {
+    const attributes: Record<string, string> = {};
+    for (const [key, value] of Object.entries(input.attributes)) {
+      if (!key.trim()) continue;
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        attributes[key.trim()] = String(value);
+      }
+    }
+    if (Object.keys(attributes).length) resolved.attributes = attributes;
+  }
+  return resolved;
+}
+
+/** Per-call attribution over the resolver's, key by key for attributes. */
+export function mergeAttribution(resolved: ResolvedAttribution, perCall: ResolvedAttribution): ResolvedAttribution {
+  const merged: ResolvedAttribution = {};
+  const userId = perCall.userId ?? resolved.userId;
+  if (userId) merged.userId = userId;
+  const tenantId = perCall.tenantId ?? resolved.tenantId;
+  if (tenantId) merged.tenantId = tenantId;
+  const feature = perCall.feature ?? resolved.feature;
+  if (feature) merged.feature = feature;
+  if (resolved.attributes || perCall.attributes) merged.attributes = { ...resolved.attributes, ...perCall.attributes };
+  return merged;
+}
+
+/**
+ * Runs the resolver for a call. A resolver that throws is reported as a
+ * process warning and the call is logged without its attribution.
+ */
+export async function resolveAttribution(
+  resolver: AttributionResolver | undefined,
+  context: AttributionContext
+): Promise<ResolvedAttribution> {
+  if (!resolver) return {};
+  try {
+    return readAttribution(await resolver(context));
+  } catch (err) {
+    process.emitWarning(err instanceof Error ? err.message : String(err), {
+      code: 'LLM_USAGE_ATTRIBUTION_FAILURE',
+      detail: 'The attribution resolver threw; the call is logged without its attribution.',
+    });
+    return {};
+  }
+}
+
+function readId(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value !== 'string') return undefined;
+  return value.trim() || undefined;
+}
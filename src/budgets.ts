@@ -0,0 +1,250 @@
+import type { CallFilters } from './dashboard/filters.js';
+import type { UsageReader, UsageSum } from './storage/types.js';
+import type { LLMCallRow } from './types.js';
+
+export type BudgetPeriod = 'hour' | 'day' | 'month';
+
+export type BudgetAction = 'warn' | 'callback' | 'reject';
+
+export type BudgetDimension = 'tag' | 'model' | 'user' | 'tenant';
+
+export type BudgetRule = {
+  name?: string;                   // defaults to a description of the rule
+  period: BudgetPeriod;            // calendar period in UTC
+  maxTokens?: number;
+  maxCostUsd?: number;
+  tag?: string;                    // only calls with this tag count towards and are checked by the rule
+  model?: string;
+  userId?: string;
+  tenantId?: string;
+  per?: BudgetDimension;           // a separate budget for every tag, model, user or tenant
+  action?: BudgetAction;           // default 'reject'
+};
+
+export type BudgetOptions = {
+  rules: BudgetRule[];
+  onExceeded?: (event: BudgetExceededEvent) => void | Promise<void>;
+  refreshIntervalMs?: number;      // how long totals read from storage are reused, default 5000
+};
+
+export type BudgetExceededEvent = {
+  rule: string;
+  period: BudgetPeriod;
+  periodStart: string;
+  scope: Partial<Record<BudgetDimension, string>>;
+  limit: { tokens?: number; costUsd?: number };
+  used: { tokens: number; costUsd: number };
+  action: BudgetAction;
+};
+
+export type BudgetCall = {
+  modelId?: string | null;
+  tags?: string[] | null;
+  userId?: string | null;
+  tenantId?: string | null;
+};
+
+export type BudgetEnforcer = {
+  /** Throws `BudgetExceededError` when a `reject` rule is already exhausted for this call. */
+  check: (call: BudgetCall) => Promise<void>;
+  /** Counts a saved row until the next refresh from storage picks it up. */
+  record: (row: LLMCallRow) => void;
+};
+
+export class BudgetExceededError extends Error {
+  readonly event: BudgetExceededEvent;
+
+  constructor(event: BudgetExceededEvent) {
+    super(describeExceeded(event));
+    this.name = 'BudgetExceededError';
+    this.event = event;
+  }
+}
+
+type BudgetTotals = {
+  periodStart: string;
+  loadedAt: number;
+  tokens: number;
+  costUsd: number;
+};
+
+type ScopedRule = {
+  rule: BudgetRule;
+  name: string;
+  scope: Partial<Record<BudgetDimension, string>>;
+};
+
+/**
+ * Checks budget rules against running totals. Totals are read from storage
+ * through `reader.sumUsage` and reused for `refreshIntervalMs`; rows saved by
+ * this process in the meantime are added locally, so bursts are caught
+ * before the next refresh. Without a reader only this process's rows count.
+ */
+export function createBudgetEnforcer(options: BudgetOptions, reader: UsageReader | null): BudgetEnforcer {
+  const refreshIntervalMs = options.refreshIntervalMs ?? 5000;
+  options.rules.forEach(validateRule);
+
+  const totals = new Map<string, BudgetTotals>();
+  const notified = new Set<string>();
+
+  const loadTotals = (scoped: ScopedRule, now: Date): BudgetTotals => {
+    const periodStart = startOfPeriod(now, scoped.rule.period).toISOString();
+    const key = totalsKey(scoped);
+    const cached = totals.get(key);
+    if (cached && cached.periodStart === periodStart && (!reader || now.getTime() - cached.loadedAt < refreshIntervalMs)) {
+      return cached;
+    }
+
+    const sum: UsageSum = reader
+      ? reader.sumUsage(scopeFilters(scoped.scope, new Date(periodStart)))
+      : { calls: 0, totalTokens: 0, costUsd: 0 };
+    const loaded = { periodStart, loadedAt: now.getTime(), tokens: sum.totalTokens, costUsd: sum.costUsd };
+    totals.set(key, loaded);
+    return loaded;
+  };
+
+  const check = async (call: BudgetCall) => {
+    const now = new Date();
+    for (const scoped of options.rules.flatMap((rule) => scopesForCall(rule, call))) {
+      const { rule } = scoped;
+      const current = loadTotals(scoped, now);
+      const overTokens = rule.maxTokens != null && current.tokens >= rule.maxTokens;
+      const overCost = rule.maxCostUsd != null && current.costUsd >= rule.maxCostUsd;
+      if (!overTokens && !overCost) continue;
+
+      const action = rule.action ?? 'reject';
+      const event: BudgetExceededEvent = {
+        rule: scoped.name,
+        period: rule.period,
+        periodStart: current.periodStart,
+        scope: scoped.scope,
+        limit: { tokens: rule.maxTokens, costUsd: rule.maxCostUsd },
+        used: { tokens: current.tokens, costUsd: current.costUsd },
+        action,
+      };
+
+      // Warnings and callbacks fire once per rule, scope and period; rejections on every call.
+      const notifyKey = `${totalsKey(scoped)}|${current.periodStart}`;
+      const firstNotice = !notified.has(notifyKey);
+      if (firstNotice) notified.add(notifyKey);
+
+      if (action === 'reject') {
+        if (firstNotice) await options.onExceeded?.(event);
+        throw new BudgetExceededError(event);
+      }
+      if (!firstNotice) continue;
+      if (action === 'warn') {
+        process.emitWarning(describeExceeded(event), { code: 'LLM_USAGE_BUDGET_EXCEEDED' });
+      }
+      await options.onExceeded?.(event);
+    }
+  };
+
+  const record = (row: LLMCallRow) => {
+    const tokens = row.totalTokens ?? 0;
+    const costUsd = row.costUsd ?? 0;
+    if (!tokens && !costUsd) return;
+    const periodStarts = new Map<BudgetPeriod, string>();
+    for (const scoped of options.rules.flatMap((rule) => scopesForCall(rule, row))) {
+      const totalsForRule = totals.get(totalsKey(scoped));
+      if (!totalsForRule) continue;
+      const period = scoped.rule.period;
+      if (!periodStarts.has(period)) periodStarts.set(period, startOfPeriod(row.timestamp, period).toISOString());
+      if (totalsForRule.periodStart !== periodStarts.get(period)) continue;
+      totalsForRule.tokens += tokens;
+      totalsForRule.costUsd += costUsd;
+    }
+  };
+
+  return { check, record };
+}
+
+export function startOfPeriod(date: Date, period: BudgetPeriod): Date {
+  const start = new Date(date.getTime());
+  if (period === 'hour') {
+    start.setUTCMinutes(0, 0, 0);
+  } else if (period === 'day') {
+    start.setUTCHours(0, 0, 0, 0);
+  } else {
+    start.setUTCDate(1);
+    start.setUTCHours(0, 0, 0, 0);
+  }
+  return start;
+}
+
+function validateRule(rule: BudgetRule) {
+  if (rule.maxTokens == null && rule.maxCostUsd == null) {
+    throw new Error(`Budget rule "${ruleName(rule)}" needs maxTokens or maxCostUsd.`);
+  }
+  if (!['hour', 'day', 'month'].includes(rule.period)) {
+    throw new Error(`Budget rule "${ruleName(rule)}" has an unknown period "${String(rule.period)}".`);
+  }
+}
+
+/** The budgets a call is subject to under one rule: none, one, or one per tag for `per: 'tag'`. */
+function scopesForCall(rule: BudgetRule, call: BudgetCall): ScopedRule[] {
+  const tags = call.tags ?? [];
+  if (rule.tag != null && !tags.includes(rule.tag)) return [];
+  if (rule.model != null && call.modelId !== rule.model) return [];
+  if (rule.userId != null && call.userId !== rule.userId) return [];
+  if (rule.tenantId != null && call.tenantId !== rule.tenantId) return [];
+
+  const base: Partial<Record<BudgetDimension, string>> = {};
+  if (rule.tag != null) base.tag = rule.tag;
+  if (rule.model != null) base.model = rule.model;
+  if (rule.userId != null) base.user = rule.userId;
+  if (rule.tenantId != null) base.tenant = rule.tenantId;
+
+  const name = ruleName(rule);
+  if (rule.per === 'tag') {
+    return tags.map((tag) => ({ rule, name, scope: { ...base, tag } }));
+  }
+  if (rule.per === 'model') {
+    return call.modelId ? [{ rule, name, scope: { ...base, model: call.modelId } }] : [];
+  }
+  if (rule.per === 'user') {
+    return call.userId ? [{ rule, name, scope: { ...base, user: call.userId } }] : [];
+  }
+  if (rule.per === 'tenant') {
+    return call.tenantId ? [{ rule, name, scope: { ...base, tenant: call.tenantId } }] : [];
+  }
+  return [{ rule, name, scope: base }];
+}
+
+function scopeFilters(scope: Partial<Record<BudgetDimension, string>>, from: Date): CallFilters {
+  const filters: CallFilters = { from };
+  if (scope.tag != null) filters.tag = scope.tag;
+  if (scope.model != null) filters.model = scope.model;
+  if (scope.user != null) filters.userId = scope.user;
+  if (scope.tenant != null) filters.tenantId = scope.tenant;
+  return filters;
+}
+
+function totalsKey(scoped: ScopedRule): string {
+  return JSON.stringify([scoped.name, scoped.rule.period, scoped.scope.tag, scoped.scope.model, scoped.scope.user, scoped.scope.tenant]);
+}
+
+function ruleName(rule: BudgetRule): string {
+  if (rule.name) return rule.name;
+  const limits = [
+    rule.maxTokens != null ? `${rule.maxTokens} tokens` : null,
+    rule.maxCostUsd != null ? `$${rule.maxCostUsd}` : null,
+  ].filter(Boolean);
+  const scope = [
+    rule.tag != null ? `tag ${rule.tag}` : null,
+    rule.model != null ? `model ${rule.model}` : null,
+    rule.userId != null ? `user ${rule.userId}` : null,
+    rule.tenantId != null ? `tenant ${rule.tenantId}` : null,
+    rule.per ? `each ${rule.per}` : null,
+  ].filter(Boolean);
+  return `${limits.join(' / ')} per ${rule.period}${scope.length ? ` (${scope.join(', ')})` : ''}`;
+}
+
+function describeExceeded(event: BudgetExceededEvent): string {
+  const scope = Object.entries(event.scope).map(([dimension, value]) => `${dimension} "${value}"`);
+  const used = [
+    event.limit.tokens != null ? `${event.used.tokens}/${event.limit.tokens} tokens` : null,
+    event.limit.costUsd != null ? `$${event.used.costUsd.toFixed(4)}/$${event.limit.costUsd}` : null,
+  ].filter(Boolean);
+  return `Budget "${event.rule}"${scope.length ? ` for ${scope.join(', ')}` : ''} exceeded since ${event.periodStart}: ${used.join(', ')}.`;
+}
@@ -0,0 +1,443 @@
+import type { PricingRegistry } from '../pricing.js';
+import type { CallFilters } from './filters.js';
+import { parseAttributes, parseTags, resolveCost } from './format.js';
+import type { AnalyticsRow, LlmCallTableRow, UsageReader } from '../storage/types.js';
+
+export type TimeBucket = 'hour' | 'day' | 'week';
+
+export const TIME_BUCKETS: TimeBucket[] = ['hour', 'day', 'week'];
+
+export type { AnalyticsRow };
+
+export type LatencyPercentiles = {
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+};
+
+export type UsageTotals = {
+  calls: number;
+  errors: number;
+  errorRate: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  inputCount: number;              // values embedded, images requested and characters of speech text
+  costUsd: number;
+  latency: LatencyPercentiles;
+};
+
+/** Per-call numbers that can be summed or summarised as a distribution. */
+export type UsageMetric =
+  | 'inputTokens'
+  | 'outputTokens'
+  | 'totalTokens'
+  | 'cachedInputTokens'
+  | 'reasoningTokens'
+  | 'inputCount'
+  | 'costUsd'
+  | 'latencyMs';
+
+export const USAGE_METRICS: UsageMetric[] = [
+  'inputTokens', 'outputTokens', 'totalTokens', 'cachedInputTokens', 'reasoningTokens', 'inputCount', 'costUsd', 'latencyMs',
+];
+
+export type Distribution = {
+  count: number;                   // rows with a value
+  min: number | null;
+  mean: number | null;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+  max: number | null;
+};
+
+/** Groups by the value of one attribute, e.g. `attr:plan`. */
+export type AttributeDimension = `attr:${string}`;
+
+/** What rows can be grouped by: model id, call type, tag, attribution, or the UTC time bucket they fall in. */
+export type GroupDimension = 'model' | 'type' | 'tag' | 'user' | 'tenant' | 'feature' | AttributeDimension | TimeBucket;
+
+/** Totals per group over a date range, as served by `/api/v1/stats/breakdown`. */
+export type UsageBreakdown = {
+  by: GroupDimension;
+  from: string;
+  to: string;
+  entries: BreakdownEntry[];
+};
+
+export type TimeSeriesPoint = UsageTotals & {
+  bucketStart: string;             // ISO timestamp (UTC) of the bucket start
+};
+
+export type BreakdownEntry = UsageTotals & {
+  key: string;
+};
+
+/** Per-group token totals aligned index-for-index with `UsageOverview.series`. */
+export type GroupedTokenSeries = {
+  key: string;
+  totalTokens: number[];
+};
+
+export type UsageOverview = {
+  bucket: TimeBucket;
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  series: TimeSeriesPoint[];
+  byModel: BreakdownEntry[];
+  byType: BreakdownEntry[];        // text, embedding, image and speech calls
+  byTag: BreakdownEntry[];
+  tokensByModel: GroupedTokenSeries[];
+  tokensByTag: GroupedTokenSeries[];
+};
+
+export type OverviewRange = {
+  bucket: TimeBucket;
+  from: Date;
+  to: Date;
+};
+
+const BUCKET_MS: Record<TimeBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Default look-back window for each bucket size when no explicit range is given.
+const DEFAULT_BUCKET_COUNT: Record<TimeBucket, number> = {
+  hour: 48,
+  day: 30,
+  week: 26,
+};
+
+const MAX_BUCKETS = 1000;
+const MAX_GROUPED_SERIES = 6;
+
+export const UNTAGGED_KEY = '(untagged)';
+export const UNKNOWN_MODEL_KEY = '(unknown)';
+export const OTHER_GROUP_KEY = '(other)';
+export const UNATTRIBUTED_KEY = '(none)';
+
+const ATTRIBUTION_COLUMNS = { user: 'user_id', tenant: 'tenant_id', feature: 'feature' } as const;
+
+export function isTimeBucket(value: unknown): value is TimeBucket {
+  return typeof value === 'string' && (TIME_BUCKETS as string[]).includes(value);
+}
+
+/**
+ * Resolves the reporting window. Missing bounds fall back to the default
+ * look-back for the bucket size, and the range is clamped so a small bucket
+ * over a long range cannot produce an unbounded series.
+ */
+export function resolveOverviewRange(bucket: TimeBucket, from?: Date | null, to?: Date | null, now = new Date()): OverviewRange {
+  const end = to ?? now;
+  const start = from ?? new Date(bucketStart(end, bucket).getTime() - (DEFAULT_BUCKET_COUNT[bucket] - 1) * BUCKET_MS[bucket]);
+  const earliest = new Date(end.getTime() - MAX_BUCKETS * BUCKET_MS[bucket]);
+  return {
+    bucket,
+    from: start < earliest ? earliest : start,
+    to: end,
+  };
+}
+
+export function isGroupDimension(value: unknown): value is GroupDimension {
+  if (typeof value !== 'string') return false;
+  if (value.startsWith('attr:')) return value.length > 'attr:'.length;
+  return ['model', 'type', 'tag', 'user', 'tenant', 'feature'].includes(value) || isTimeBucket(value);
+}
+
+export function bucketStart(date: Date, bucket: TimeBucket): Date {
+  const start = new Date(date.getTime());
+  start.setUTCMinutes(0, 0, 0);
+  if (bucket === 'hour') return start;
+
+  start.setUTCHours(0);
+  if (bucket === 'day') return start;
+
+  // ISO weeks start on Monday.
+  const weekday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - weekday);
+  return start;
+}
+
+export function buildUsageOverview(rows: AnalyticsRow[], range: OverviewRange): UsageOverview {
+  const { bucket, from, to } = range;
+
+  const buckets = new Map<number, AnalyticsRow[]>();
+  for (let cursor = bucketStart(from, bucket).getTime(); cursor <= to.getTime(); cursor += BUCKET_MS[bucket]) {
+    buckets.set(cursor, []);
+  }
+
+  for (const row of rows) {
+    const timestamp = new Date(row.timestamp);
+    if (Number.isNaN(timestamp.getTime())) continue;
+
+    const key = bucketStart(timestamp, bucket).getTime();
+    const bucketRows = buckets.get(key);
+    if (bucketRows) {
+      bucketRows.push(row);
+    } else {
+      buckets.set(key, [row]);
+    }
+  }
+
+  const orderedBuckets = [...buckets.entries()].sort(([a], [b]) => a - b);
+  const series = orderedBuckets.map(([start, bucketRows]) => ({
+    bucketStart: new Date(start).toISOString(),
+    ...summariseRows(bucketRows),
+  }));
+
+  const byModel = groupRows(rows, 'model');
+  const byTag = groupRows(rows, 'tag');
+  const modelBreakdown = toBreakdown(byModel);
+  const tagBreakdown = toBreakdown(byTag);
+  const bucketIndex = new Map(orderedBuckets.map(([start], index) => [start, index]));
+
+  return {
+    bucket,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: summariseRows(rows),
+    series,
+    byModel: modelBreakdown,
+    byType: breakdownBy(rows, 'type'),
+    byTag: tagBreakdown,
+    tokensByModel: groupTokenSeries(byModel, modelBreakdown, bucketIndex, bucket),
+    tokensByTag: groupTokenSeries(byTag, tagBreakdown, bucketIndex, bucket),
+  };
+}
+
+/** Loads the rows in range (pricing rows saved without a cost) and aggregates them. */
+export function loadUsageOverview(
+  reader: UsageReader,
+  pricing: PricingRegistry,
+  bucket: TimeBucket,
+  filters: CallFilters
+): UsageOverview {
+  const range = resolveOverviewRange(bucket, filters.from, filters.to);
+  const rows = loadAnalyticsRows(reader, pricing, { ...filters, from: range.from, to: range.to });
+  return buildUsageOverview(rows, range);
+}
+
+/**
+ * The matching rows, with rows saved without a cost priced from the
+ * registry, followed by the rollups of matching rows that retention deleted.
+ * Rollups keep their stored cost, as rows are priced when they are saved.
+ */
+export function loadAnalyticsRows(reader: UsageReader, pricing: PricingRegistry, filters: CallFilters): AnalyticsRow[] {
+  return [
+    ...reader.listAnalyticsRows(filters).map((row) => ({ ...row, cost_usd: resolveCost(row, pricing).costUsd })),
+    ...reader.listRolledUpRows(filters),
+  ];
+}
+
+export function summariseRows(rows: AnalyticsRow[]): UsageTotals {
+  let errors = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cachedInputTokens = 0;
+  let reasoningTokens = 0;
+  let totalTokens = 0;
+  let inputCount = 0;
+  let costUsd = 0;
+  const latencies: number[] = [];
+
+  let calls = 0;
+
+  for (const row of rows) {
+    calls += row.calls ?? 1;
+    errors += row.errors ?? (isErrorRow(row) ? 1 : 0);
+    inputTokens += row.input_tokens ?? 0;
+    outputTokens += row.output_tokens ?? 0;
+    cachedInputTokens += row.cached_input_tokens ?? 0;
+    reasoningTokens += row.reasoning_tokens ?? 0;
+    totalTokens += row.total_tokens ?? (row.input_tokens ?? 0) + (row.output_tokens ?? 0);
+    inputCount += row.input_count ?? 0;
+    costUsd += row.cost_usd ?? 0;
+    if (row.latency_ms != null) latencies.push(row.latency_ms);
+  }
+
+  latencies.sort((a, b) => a - b);
+
+  return {
+    calls,
+    errors,
+    errorRate: calls ? errors / calls : 0,
+    inputTokens,
+    outputTokens,
+    cachedInputTokens,
+    reasoningTokens,
+    totalTokens,
+    inputCount,
+    costUsd,
+    latency: {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+    },
+  };
+}
+
+/**
+ * Splits rows by a dimension. Rows without a model go under `(unknown)`,
+ * untagged rows under `(untagged)`, and rows without the user, tenant,
+ * feature or attribute under `(none)`; a row with several tags counts
+ * towards each of them. Time bucket keys are ISO bucket starts.
+ */
+export function groupRows<T extends AnalyticsRow>(rows: T[], by: GroupDimension): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    if (by === 'model') {
+      pushToGroup(groups, row.model_id ?? UNKNOWN_MODEL_KEY, row);
+    } else if (by === 'type') {
+      pushToGroup(groups, row.call_type ?? 'text', row);
+    } else if (by === 'tag') {
+      const tags = parseTags(row.tags_json);
+      if (!tags.length) pushToGroup(groups, UNTAGGED_KEY, row);
+      for (const tag of new Set(tags)) pushToGroup(groups, tag, row);
+    } else if (by === 'user' || by === 'tenant' || by === 'feature') {
+      pushToGroup(groups, row[ATTRIBUTION_COLUMNS[by]] ?? UNATTRIBUTED_KEY, row);
+    } else if (by.startsWith('attr:')) {
+      pushToGroup(groups, parseAttributes(row.attributes_json)[by.slice('attr:'.length)] ?? UNATTRIBUTED_KEY, row);
+    } else {
+      const timestamp = new Date(row.timestamp);
+      if (Number.isNaN(timestamp.getTime())) continue;
+      pushToGroup(groups, bucketStart(timestamp, by as TimeBucket).toISOString(), row);
+    }
+  }
+  return groups;
+}
+
+/** Totals per group: oldest first for time buckets, heaviest first otherwise. */
+export function breakdownBy(rows: AnalyticsRow[], by: GroupDimension): BreakdownEntry[] {
+  const groups = groupRows(rows, by);
+  if (!isTimeBucket(by)) return toBreakdown(groups);
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, groupRows]) => ({ key, ...summariseRows(groupRows) }));
+}
+
+/** Loads the rows in range, priced as the overview does, and totals them per group. */
+export function loadUsageBreakdown(
+  reader: UsageReader,
+  pricing: PricingRegistry,
+  by: GroupDimension,
+  filters: CallFilters
+): UsageBreakdown {
+  const range = resolveOverviewRange('day', filters.from, filters.to);
+  const rows = loadAnalyticsRows(reader, pricing, { ...filters, from: range.from, to: range.to });
+  return { by, from: range.from.toISOString(), to: range.to.toISOString(), entries: breakdownBy(rows, by) };
+}
+
+export function metricValue(row: AnalyticsRow, metric: UsageMetric): number | null {
+  switch (metric) {
+    case 'inputTokens':
+      return row.input_tokens;
+    case 'outputTokens':
+      return row.output_tokens;
+    case 'totalTokens':
+      return row.total_tokens ?? (row.input_tokens ?? 0) + (row.output_tokens ?? 0);
+    case 'cachedInputTokens':
+      return row.cached_input_tokens;
+    case 'reasoningTokens':
+      return row.reasoning_tokens;
+    case 'inputCount':
+      return row.input_count;
+    case 'costUsd':
+      return row.cost_usd;
+    case 'latencyMs':
+      return row.latency_ms;
+  }
+}
+
+export function summariseMetric(rows: AnalyticsRow[], metric: UsageMetric): Distribution {
+  return summariseValues(sortedValues(rows, metric));
+}
+
+/** Min, mean, percentiles and max of an ascending list. */
+export function summariseValues(values: number[]): Distribution {
+  if (!values.length) {
+    return { count: 0, min: null, mean: null, p50: null, p95: null, p99: null, max: null };
+  }
+  return {
+    count: values.length,
+    min: values[0],
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+    p50: percentile(values, 50),
+    p95: percentile(values, 95),
+    p99: percentile(values, 99),
+    max: values[values.length - 1],
+  };
+}
+
+/**
+ * Finite values of a metric in ascending order, skipping rows without one.
+ * Rolled-up rows are skipped too, since they hold no per-call values.
+ */
+export function sortedValues(rows: AnalyticsRow[], metric: UsageMetric): number[] {
+  return rows
+    .filter((row) => row.calls == null)
+    .map((row) => metricValue(row, metric))
+    .filter((value): value is number => value != null && Number.isFinite(value))
+    .sort((a, b) => a - b);
+}
+
+/** Nearest-rank percentile over an ascending list. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+export function isErrorRow(row: Pick<LlmCallTableRow, 'finish_reason' | 'error_json'>): boolean {
+  return row.finish_reason === 'error' || row.error_json != null;
+}
+
+function pushToGroup<T>(groups: Map<string, T[]>, key: string, row: T) {
+  const group = groups.get(key);
+  if (group) {
+    group.push(row);
+  } else {
+    groups.set(key, [row]);
+  }
+}
+
+function groupTokenSeries(
+  groups: Map<string, AnalyticsRow[]>,
+  breakdown: BreakdownEntry[],
+  bucketIndex: Map<number, number>,
+  bucket: TimeBucket
+): GroupedTokenSeries[] {
+  // Keep the heaviest groups and fold the long tail into a single series.
+  const topKeys = new Set(breakdown.slice(0, MAX_GROUPED_SERIES).map((entry) => entry.key));
+  const result = new Map<string, number[]>();
+
+  for (const [key, groupRows] of groups) {
+    const seriesKey = topKeys.has(key) ? key : OTHER_GROUP_KEY;
+    let values = result.get(seriesKey);
+    if (!values) {
+      values = new Array(bucketIndex.size).fill(0);
+      result.set(seriesKey, values);
+    }
+    for (const row of groupRows) {
+      const index = bucketIndex.get(bucketStart(new Date(row.timestamp), bucket).getTime());
+      if (index == null) continue;
+      values[index] += row.total_tokens ?? (row.input_tokens ?? 0) + (row.output_tokens ?? 0);
+    }
+  }
+
+  const order = [...topKeys, OTHER_GROUP_KEY];
+  return order
+    .filter((key) => result.has(key))
+    .map((key) => ({ key, totalTokens: result.get(key)! }));
+}
+
+function toBreakdown(groups: Map<string, AnalyticsRow[]>): BreakdownEntry[] {
+  return [...groups.entries()]
+    .map(([key, groupRows]) => ({ key, ...summariseRows(groupRows) }))
+    .sort((a, b) => b.totalTokens - a.totalTokens || b.calls - a.calls);
+}
@@ -0,0 +1,332 @@
+import express, { type NextFunction, type Request, type Response, type Router } from 'express';
+import type { AlertDelivery, AlertKind, StoredAlert } from '../alerts.js';
+import { isCallType, type CallType } from '../model-calls.js';
+import type { PricingRegistry } from '../pricing.js';
+import type { RedactionHit } from '../redaction.js';
+import type { PartTiming } from '../stream-capture.js';
+import type { AlertTableRow, CallFacets, CallListRow, LlmCallTableRow, ToolCallTableRow, UsageReader } from '../storage/types.js';
+import {
+  isErrorRow,
+  isGroupDimension,
+  isTimeBucket,
+  loadUsageBreakdown,
+  loadUsageOverview,
+  type UsageBreakdown,
+  type UsageOverview,
+} from './analytics.js';
+import { compareCalls, compareGroups, parseCompareIds, parseGroupSpecs, type CallComparison, type GroupComparison } from './compare.js';
+import { decodeCursor, encodeCursor, parseCallFilters, parsePageSize } from './filters.js';
+import { parseAttributes, parseTags, resolveCost, safeParseJson, truncate } from './format.js';
+import { loadTenantReport, type TenantReport } from './tenants.js';
+import { loadToolReport, toToolCall, type ToolCall, type ToolReport } from './tools.js';
+import { buildTraceSummary, type TraceSummary } from './traces.js';
+
+export const API_VERSION = 'v1';
+
+export type ApiTokenUsage = {
+  inputTokens: number | null;
+  outputTokens: number | null;
+  totalTokens: number | null;
+  cachedInputTokens: number | null;
+  reasoningTokens: number | null;
+};
+
+export type ApiCallSummary = {
+  id: string;
+  timestamp: string;
+  modelId: string | null;
+  callType: CallType;
+  tags: string[];
+  inputPreview: string | null;
+  inputCount: number | null;       // values embedded, images requested or characters of speech text
+  finishReason: string | null;
+  isError: boolean;
+  usage: ApiTokenUsage;
+  costUsd: number | null;
+  costEstimated: boolean;
+  latencyMs: number | null;
+  traceId: string | null;
+  sessionId: string | null;
+  userId: string | null;
+  tenantId: string | null;
+  feature: string | null;
+};
+
+export type ApiCallDetail = Omit<ApiCallSummary, 'inputPreview'> & {
+  captureLevel: string | null;
+  spanId: string | null;
+  parentSpanId: string | null;
+  inputText: string | null;
+  prompt: unknown[] | null;
+  content: unknown;
+  dimensions: number | null;       // embeddings only
+  requestTools: unknown;
+  toolCalls: ToolCall[];           // tool calls the model made, with outcomes once seen
+  params: {
+    temperature: number | null;
+    topP: number | null;
+    maxOutputTokens: number | null;
+  };
+  callOptions: Record<string, unknown> | null;
+  timeToFirstTokenMs: number | null;
+  partTimings: PartTiming[] | null;
+  warnings: unknown[] | null;
+  requestId: string | null;
+  responseId: string | null;
+  headers: Record<string, unknown> | null;
+  meta: Record<string, unknown> | null;
+  error: { message: string; stack?: string } | null;
+  redactions: RedactionHit[];
+  attributes: Record<string, string>;
+  replayOf: string | null;
+};
+
+export type ApiPageInfo = {
+  limit: number;
+  total: number;
+  olderCursor: string | null;      // pass as `before` to fetch the next (older) page
+  newerCursor: string | null;      // pass as `after` to fetch the previous (newer) page
+};
+
+export type ApiCallListResponse = {
+  data: ApiCallSummary[];
+  page: ApiPageInfo;
+};
+
+export type ApiCallResponse = {
+  data: ApiCallDetail;
+};
+
+export type ApiOverviewResponse = {
+  data: UsageOverview;
+};
+
+export type ApiBreakdownResponse = {
+  data: UsageBreakdown;
+};
+
+export type ApiTenantReportResponse = {
+  data: TenantReport;
+};
+
+export type ApiToolReportResponse = {
+  data: ToolReport;
+};
+
+export type ApiFacetsResponse = {
+  data: CallFacets;
+};
+
+export type ApiTraceResponse = {
+  data: TraceSummary;
+};
+
+export type ApiAlertListResponse = {
+  data: StoredAlert[];             // newest first
+};
+
+export type ApiCompareResponse = {
+  data: CallComparison | GroupComparison;
+};
+
+export type ApiErrorResponse = {
+  error: {
+    code: string;
+    message: string;
+  };
+};
+
+/**
+ * JSON counterpart of the HTML routes, mounted under `/api/v1`. Query
+ * parameters match the dashboard's (filters, `limit`, `before`/`after`
+ * cursors, `bucket`).
+ */
+export function createApiRouter({ reader, pricing }: { reader: UsageReader; pricing: PricingRegistry }): Router {
+  const router = express.Router();
+
+  router.get('/calls', (req, res: Response<ApiCallListResponse>) => {
+    const filters = parseCallFilters(req.query);
+    const limit = parsePageSize(req.query.limit);
+    const before = decodeCursor(req.query.before);
+    const after = before ? null : decodeCursor(req.query.after);
+    const { rows, total, hasOlder, hasNewer } = reader.listCalls(filters, { pageSize: limit, before, after });
+
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    res.json({
+      data: rows.map((row) => toApiCallSummary(row, pricing)),
+      page: {
+        limit,
+        total,
+        olderCursor: hasOlder && last ? encodeCursor({ timestamp: last.timestamp, id: last.id }) : null,
+        newerCursor: hasNewer && first ? encodeCursor({ timestamp: first.timestamp, id: first.id }) : null,
+      },
+    });
+  });
+
+  router.get('/calls/:id', (req, res: Response<ApiCallResponse | ApiErrorResponse>) => {
+    const row = reader.getCall(req.params.id);
+    if (!row) {
+      sendError(res, 404, 'not_found', `No call with id "${req.params.id}".`);
+      return;
+    }
+    res.json({ data: toApiCallDetail(row, pricing, reader.getToolCalls(row.id)) });
+  });
+
+  router.get('/traces/:traceId', (req, res: Response<ApiTraceResponse | ApiErrorResponse>) => {
+    const trace = buildTraceSummary(req.params.traceId, reader.listTrace(req.params.traceId), pricing);
+    if (!trace) {
+      sendError(res, 404, 'not_found', `No calls with trace id "${req.params.traceId}".`);
+      return;
+    }
+    res.json({ data: trace });
+  });
+
+  router.get('/stats/overview', (req, res: Response<ApiOverviewResponse | ApiErrorResponse>) => {
+    if (req.query.bucket != null && !isTimeBucket(req.query.bucket)) {
+      sendError(res, 400, 'invalid_bucket', 'bucket must be one of "hour", "day" or "week".');
+      return;
+    }
+    const bucket = isTimeBucket(req.query.bucket) ? req.query.bucket : 'day';
+    res.json({ data: loadUsageOverview(reader, pricing, bucket, parseCallFilters(req.query)) });
+  });
+
+  router.get('/stats/breakdown', (req, res: Response<ApiBreakdownResponse | ApiErrorResponse>) => {
+    const by = req.query.by ?? 'model';
+    if (!isGroupDimension(by) || isTimeBucket(by)) {
+      sendError(res, 400, 'invalid_dimension', 'by must be "model", "tag", "user", "tenant", "feature" or "attr:<key>".');
+      return;
+    }
+    res.json({ data: loadUsageBreakdown(reader, pricing, by, parseCallFilters(req.query)) });
+  });
+
+  router.get('/stats/tenants', (req, res: Response<ApiTenantReportResponse>) => {
+    res.json({ data: loadTenantReport(reader, pricing, parseCallFilters(req.query)) });
+  });
+
+  router.get('/stats/tools', (req, res: Response<ApiToolReportResponse>) => {
+    res.json({ data: loadToolReport(reader, parseCallFilters(req.query)) });
+  });
+
+  router.get('/alerts', (req, res: Response<ApiAlertListResponse>) => {
+    res.json({ data: reader.listAlerts(parsePageSize(req.query.limit)).map(toApiAlert) });
+  });
+
+  router.get('/compare', (req, res: Response<ApiCompareResponse | ApiErrorResponse>) => {
+    if (req.query.ids != null) {
+      const ids = parseCompareIds(req.query.ids);
+      if (ids.length < 2) {
+        sendError(res, 400, 'invalid_comparison', 'ids must name at least two calls.');
+        return;
+      }
+      res.json({ data: compareCalls(reader, pricing, ids) });
+      return;
+    }
+    const specs = parseGroupSpecs(req.query);
+    if (specs.length < 2) {
+      sendError(res, 400, 'invalid_comparison', 'Pass ids, or filters for at least two groups such as a.model and b.model.');
+      return;
+    }
+    res.json({ data: compareGroups(reader, pricing, specs) });
+  });
+
+  router.get('/facets', (_req, res: Response<ApiFacetsResponse>) => {
+    res.json({ data: reader.facets() });
+  });
+
+  router.use((_req, res: Response<ApiErrorResponse>) => {
+    sendError(res, 404, 'not_found', 'Unknown API endpoint.');
+  });
+
+  router.use((err: unknown, _req: Request, res: Response<ApiErrorResponse>, _next: NextFunction) => {
+    sendError(res, 500, 'internal_error', err instanceof Error ? err.message : String(err));
+  });
+
+  return router;
+}
+
+export function toApiCallSummary(row: CallListRow, pricing: PricingRegistry): ApiCallSummary {
+  const { costUsd, estimated } = resolveCost(row, pricing);
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    modelId: row.model_id ?? null,
+    callType: isCallType(row.call_type) ? row.call_type : 'text',
+    tags: parseTags(row.tags_json),
+    inputPreview: row.input_text ? truncate(row.input_text, 140) : null,
+    inputCount: row.input_count ?? null,
+    finishReason: row.finish_reason ?? null,
+    isError: isErrorRow(row),
+    usage: toApiTokenUsage(row),
+    costUsd,
+    costEstimated: estimated,
+    latencyMs: row.latency_ms ?? null,
+    traceId: row.trace_id ?? null,
+    sessionId: row.session_id ?? null,
+    userId: row.user_id ?? null,
+    tenantId: row.tenant_id ?? null,
+    feature: row.feature ?? null,
+  };
+}
+
+export function toApiCallDetail(row: LlmCallTableRow, pricing: PricingRegistry, toolCalls: ToolCallTableRow[]): ApiCallDetail {
+  const { inputPreview: _inputPreview, ...summary } = toApiCallSummary(row, pricing);
+  return {
+    ...summary,
+    captureLevel: row.capture_level ?? null,
+    spanId: row.span_id ?? null,
+    parentSpanId: row.parent_span_id ?? null,
+    inputText: row.input_text ?? null,
+    prompt: (safeParseJson(row.prompt_json) as unknown[] | null) ?? null,
+    content: safeParseJson(row.content_json),
+    dimensions: row.dimensions ?? null,
+    requestTools: safeParseJson(row.request_tools_json),
+    toolCalls: toolCalls.map(toToolCall),
+    params: {
+      temperature: row.temperature ?? null,
+      topP: row.top_p ?? null,
+      maxOutputTokens: row.max_output_tokens ?? null,
+    },
+    callOptions: (safeParseJson(row.call_options_json) as Record<string, unknown> | null) ?? null,
+    timeToFirstTokenMs: row.time_to_first_token_ms ?? null,
+    partTimings: (safeParseJson(row.part_timings_json) as PartTiming[] | null) ?? null,
+    warnings: (safeParseJson(row.warnings_json) as unknown[] | null) ?? null,
+    requestId: row.request_id ?? null,
+    responseId: row.response_id ?? null,
+    headers: (safeParseJson(row.headers_json) as Record<string, unknown> | null) ?? null,
+    meta: (safeParseJson(row.meta_json) as Record<string, unknown> | null) ?? null,
+    error: (safeParseJson(row.error_json) as ApiCallDetail['error']) ?? null,
+    redactions: (safeParseJson(row.redactions_json) as RedactionHit[] | null) ?? [],
+    attributes: parseAttributes(row.attributes_json),
+    replayOf: row.replay_of ?? null,
+  };
+}
+
+export function toApiAlert(row: AlertTableRow): StoredAlert {
+  return {
+    id: row.id,
+    firedAt: row.fired_at,
+    rule: row.rule,
+    kind: row.kind as AlertKind,
+    key: row.dedupe_key,
+    message: row.message,
+    value: row.value ?? null,
+    threshold: row.threshold ?? null,
+    details: (safeParseJson(row.details_json) as Record<string, unknown> | null) ?? {},
+    deliveries: (safeParseJson(row.deliveries_json) as AlertDelivery[] | null) ?? [],
+  };
+}
+
+function toApiTokenUsage(row: CallListRow): ApiTokenUsage {
+  return {
+    inputTokens: row.input_tokens ?? null,
+    outputTokens: row.output_tokens ?? null,
+    totalTokens: row.total_tokens ?? null,
+    cachedInputTokens: row.cached_input_tokens ?? null,
+    reasoningTokens: row.reasoning_tokens ?? null,
+  };
+}
+
+function sendError(res: Response<ApiErrorResponse>, status: number, code: string, message: string) {
+  res.status(status).json({ error: { code, message } });
+}
@@ -0,0 +1,164 @@
+import crypto from 'node:crypto';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export type BearerAuth = {
+  type: 'bearer';
+  token: string | string[];        // any of these tokens is accepted
+};
+
+export type BasicAuth = {
+  type: 'basic';
+  users: Record<string, string>;   // username -> hash from `hashPassword`
+  realm?: string;                  // default 'Usage Dashboard'
+};
+
+/** Built-in schemes, or any Express middleware that ends unauthorised requests itself. */
+export type DashboardAuth = BearerAuth | BasicAuth | RequestHandler;
+
+export class InsecureBindingError extends Error {
+  readonly host: string;
+
+  constructor(host: string) {
+    super(
+      `Refusing to serve the dashboard on non-loopback host "${host}" without authentication. ` +
+        'Configure auth, or set allowInsecureRemote to expose it anyway.'
+    );
+    this.name = 'InsecureBindingError';
+    this.host = host;
+  }
+}
+
+const TOKEN_COOKIE = 'llm_usage_token';
+const SCRYPT_COST = 16384;
+const SCRYPT_KEY_LENGTH = 32;
+const VERIFIED_CACHE_SIZE = 100;
+
+/**
+ * Hashes a dashboard password for `BasicAuth.users` as
+ * `scrypt$<cost>$<salt>$<hash>`. Also available as `ai-sdk-usage hash-password`.
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH, { N: SCRYPT_COST });
+  return `scrypt$${SCRYPT_COST}$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, cost, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !Number.isInteger(Number(cost)) || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  try {
+    const actual = crypto.scryptSync(password, Buffer.from(salt, 'base64'), expected.length, { N: Number(cost) });
+    return crypto.timingSafeEqual(actual, expected);
+  } catch {
+    return false;                  // malformed parameters in the stored hash
+  }
+}
+
+export function isLoopbackHost(host: string): boolean {
+  const normalised = host.replace(/^\[|\]$/g, '').toLowerCase();
+  return normalised === 'localhost' || normalised === '::1' || /^127\.\d+\.\d+\.\d+$/.test(normalised) || normalised === '::ffff:127.0.0.1';
+}
+
+/**
+ * Express middleware for the configured scheme. Bearer tokens are read from
+ * the `Authorization` header; browsers can instead open any page once with
+ * `?token=...`, which stores the token in an HTTP-only cookie.
+ */
+export function createAuthMiddleware(auth: DashboardAuth): RequestHandler {
+  if (typeof auth === 'function') return auth;
+  if (auth.type === 'bearer') return bearerMiddleware(auth);
+  if (auth.type === 'basic') return basicMiddleware(auth);
+  throw new Error(`Unknown dashboard auth type "${String((auth as { type?: unknown }).type)}".`);
+}
+
+function bearerMiddleware(auth: BearerAuth): RequestHandler {
+  const tokens = (Array.isArray(auth.token) ? auth.token : [auth.token]).filter(Boolean);
+  if (!tokens.length) throw new Error('Bearer auth needs at least one non-empty token.');
+  const accepts = (candidate: string | undefined) =>
+    candidate != null && tokens.some((token) => safeEqual(candidate, token));
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('authorization');
+    const fromHeader = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (accepts(fromHeader) || accepts(readCookie(req, TOKEN_COOKIE))) {
+      next();
+      return;
+    }
+
+    const fromQuery = typeof req.query.token === 'string' ? req.query.token : undefined;
+    if (accepts(fromQuery) && req.method === 'GET') {
+      const url = new URL(req.originalUrl, 'http://dashboard.local');
+      url.searchParams.delete('token');
+      res.setHeader(
+        'Set-Cookie',
+        `${TOKEN_COOKIE}=${encodeURIComponent(fromQuery!)}; Path=/; HttpOnly; SameSite=Strict${req.secure ? '; Secure' : ''}`
+      );
+      res.redirect(`${url.pathname}${url.search}`);
+      return;
+    }
+
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendUnauthorised(req, res);
+  };
+}
+
+function basicMiddleware(auth: BasicAuth): RequestHandler {
+  const realm = (auth.realm ?? 'Usage Dashboard').replace(/"/g, '');
+  // scrypt is deliberately slow; remember recently verified headers instead of re-hashing on every request.
+  const verified = new Set<string>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('authorization');
+    const encoded = header?.match(/^Basic\s+(.+)$/i)?.[1];
+    if (encoded) {
+      const digest = crypto.createHash('sha256').update(encoded).digest('hex');
+      if (verified.has(digest)) {
+        next();
+        return;
+      }
+
+      const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      const username = separator >= 0 ? decoded.slice(0, separator) : decoded;
+      const password = separator >= 0 ? decoded.slice(separator + 1) : '';
+      const stored = Object.prototype.hasOwnProperty.call(auth.users, username) ? auth.users[username] : undefined;
+      if (stored && verifyPassword(password, stored)) {
+        if (verified.size >= VERIFIED_CACHE_SIZE) verified.clear();
+        verified.add(digest);
+        next();
+        return;
+      }
+    }
+
+    res.setHeader('WWW-Authenticate', `Basic realm="${realm}", charset="UTF-8"`);
+    sendUnauthorised(req, res);
+  };
+}
+
+function sendUnauthorised(req: Request, res: Response) {
+  if (req.path.startsWith('/api/')) {
+    res.status(401).json({ error: { code: 'unauthorized', message: 'Authentication required.' } });
+    return;
+  }
+  res.status(401).type('text/plain').send('Authentication required.');
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.get('cookie') ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join('='));
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
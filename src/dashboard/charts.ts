@@ -0,0 +1,144 @@
+/*
+ * Minimal SVG chart geometry for the server-rendered dashboard. The views only
+ * draw the rectangles and polylines computed here, so no client-side charting
+ * library is needed.
+ */
+
+export type ChartLayer = {
+  label: string;
+  color: string;
+  values: number[];
+};
+
+export type ChartSegment = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  title: string;
+};
+
+export type ChartLine = {
+  label: string;
+  color: string;
+  points: string;                  // SVG polyline `points` attribute
+};
+
+export type ChartAxisLabel = {
+  x: number;
+  text: string;
+};
+
+export type Chart = {
+  width: number;
+  height: number;
+  plotHeight: number;
+  maxValue: number;
+  maxLabel: string;
+  legend: { label: string; color: string }[];
+  segments: ChartSegment[];
+  lines: ChartLine[];
+  axisLabels: ChartAxisLabel[];
+};
+
+export type ChartOptions = {
+  labels: string[];                // one label per bucket
+  formatValue?: (value: number) => string;
+  width?: number;
+  height?: number;
+};
+
+export const CHART_COLORS = ['#3d6cff', '#24a68a', '#f0a030', '#d9534f', '#8e5bd8', '#3aa0c8', '#8a99a8'];
+
+const AXIS_LABEL_HEIGHT = 18;
+const MAX_AXIS_LABELS = 8;
+
+export function buildStackedBarChart(layers: ChartLayer[], options: ChartOptions): Chart {
+  const { labels, formatValue = formatCompactNumber, width = 720, height = 180 } = options;
+  const plotHeight = height - AXIS_LABEL_HEIGHT;
+  const count = labels.length;
+  const stackTotals = labels.map((_, index) => layers.reduce((sum, layer) => sum + (layer.values[index] ?? 0), 0));
+  const maxValue = Math.max(0, ...stackTotals);
+  const slot = count ? width / count : width;
+  const barWidth = Math.max(1, slot * 0.8);
+
+  const segments: ChartSegment[] = [];
+  labels.forEach((label, index) => {
+    let offset = 0;
+    for (const layer of layers) {
+      const value = layer.values[index] ?? 0;
+      if (value <= 0 || maxValue === 0) continue;
+      const segmentHeight = (value / maxValue) * plotHeight;
+      offset += segmentHeight;
+      segments.push({
+        x: round(index * slot + (slot - barWidth) / 2),
+        y: round(plotHeight - offset),
+        width: round(barWidth),
+        height: round(segmentHeight),
+        color: layer.color,
+        title: `${label} · ${layer.label}: ${formatValue(value)}`,
+      });
+    }
+  });
+
+  return {
+    width,
+    height,
+    plotHeight,
+    maxValue,
+    maxLabel: formatValue(maxValue),
+    legend: layers.map(({ label, color }) => ({ label, color })),
+    segments,
+    lines: [],
+    axisLabels: buildAxisLabels(labels, slot),
+  };
+}
+
+export function buildLineChart(layers: ChartLayer[], options: ChartOptions): Chart {
+  const { labels, formatValue = formatCompactNumber, width = 720, height = 180 } = options;
+  const plotHeight = height - AXIS_LABEL_HEIGHT;
+  const count = labels.length;
+  const maxValue = Math.max(0, ...layers.flatMap((layer) => layer.values));
+  const slot = count ? width / count : width;
+
+  const lines: ChartLine[] = layers.map((layer) => ({
+    label: layer.label,
+    color: layer.color,
+    points: labels
+      .map((_, index) => {
+        const value = layer.values[index] ?? 0;
+        const y = maxValue === 0 ? plotHeight : plotHeight - (value / maxValue) * plotHeight;
+        return `${round(index * slot + slot / 2)},${round(y)}`;
+      })
+      .join(' '),
+  }));
+
+  return {
+    width,
+    height,
+    plotHeight,
+    maxValue,
+    maxLabel: formatValue(maxValue),
+    legend: layers.map(({ label, color }) => ({ label, color })),
+    segments: [],
+    lines,
+    axisLabels: buildAxisLabels(labels, slot),
+  };
+}
+
+export function formatCompactNumber(value: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+}
+
+function buildAxisLabels(labels: string[], slot: number): ChartAxisLabel[] {
+  const step = Math.max(1, Math.ceil(labels.length / MAX_AXIS_LABELS));
+  return labels
+    .map((text, index) => ({ x: round(index * slot + slot / 2), text, index }))
+    .filter(({ index }) => index % step === 0)
+    .map(({ x, text }) => ({ x, text }));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
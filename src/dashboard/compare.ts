@@ -0,0 +1,248 @@
+import type { PricingRegistry } from '../pricing.js';
+import type { LlmCallTableRow, UsageReader } from '../storage/types.js';
+import { isErrorRow, summariseMetric, summariseRows, type Distribution, type UsageMetric, type UsageTotals } from './analytics.js';
+import type { ApiTokenUsage } from './api.js';
+import { filtersToQuery, parseCallFilters, type CallFilters } from './filters.js';
+import { parseTags, resolveCost, safeParseJson } from './format.js';
+
+export type DiffLine = {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+export type ComparedCall = {
+  id: string;
+  timestamp: string;
+  modelId: string | null;
+  tags: string[];
+  finishReason: string | null;
+  isError: boolean;
+  params: {
+    temperature: number | null;
+    topP: number | null;
+    maxOutputTokens: number | null;
+  };
+  usage: ApiTokenUsage;
+  costUsd: number | null;
+  costEstimated: boolean;
+  latencyMs: number | null;
+  inputText: string | null;
+  content: string | null;          // content_json, pretty-printed
+  inputDiff: DiffLine[] | null;    // against the first call; null for the first call itself
+  contentDiff: DiffLine[] | null;
+};
+
+export type CallComparison = {
+  kind: 'calls';
+  calls: ComparedCall[];           // in the order the ids were given
+  missingIds: string[];
+  differs: Record<'modelId' | 'temperature' | 'topP' | 'maxOutputTokens' | 'inputText' | 'content', boolean>;
+};
+
+export type { Distribution };
+
+export type DistributionMetric = Extract<UsageMetric, 'totalTokens' | 'inputTokens' | 'outputTokens' | 'costUsd' | 'latencyMs'>;
+
+export const DISTRIBUTION_METRICS: DistributionMetric[] = ['totalTokens', 'inputTokens', 'outputTokens', 'costUsd', 'latencyMs'];
+
+export type GroupSpec = {
+  key: string;                     // query prefix, e.g. 'a' for `a.model`
+  filters: CallFilters;
+};
+
+export type ComparedGroup = {
+  key: string;
+  label: string;                   // e.g. "model=gpt-4o, tag=summarise"
+  query: Record<string, string>;   // the group's filters in query-string form
+  totals: UsageTotals;
+  distributions: Record<DistributionMetric, Distribution>;
+};
+
+export type GroupComparison = {
+  kind: 'groups';
+  groups: ComparedGroup[];
+  scale: Record<DistributionMetric, number>;  // largest max across groups, for drawing on one axis
+};
+
+export const GROUP_KEYS = ['a', 'b', 'c', 'd'];
+export const MAX_COMPARED_CALLS = 6;
+
+// Above this many LCS cells a changed text is shown as removed and re-added in full.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Reads `ids` given as repeated parameters and/or comma-separated lists, without duplicates. */
+export function parseCompareIds(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  const ids = values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => item.split(','))
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return [...new Set(ids)].slice(0, MAX_COMPARED_CALLS);
+}
+
+/**
+ * Reads comparison groups from prefixed filter parameters: `a.model=x` and
+ * `b.model=y` define two groups, and unprefixed filters such as `tag` apply
+ * to every group. Groups without any prefixed parameter are left out.
+ */
+export function parseGroupSpecs(query: Record<string, unknown>): GroupSpec[] {
+  const shared = Object.fromEntries(Object.entries(query).filter(([name]) => !name.includes('.')));
+  const specs: GroupSpec[] = [];
+  for (const key of GROUP_KEYS) {
+    const prefix = `${key}.`;
+    const own = Object.entries(query).filter(([name]) => name.startsWith(prefix));
+    if (!own.length) continue;
+    // Blank group fields (an unselected form control) fall back to the shared value.
+    const overrides = own.filter(([, value]) => !(typeof value === 'string' && !value.trim()));
+    const merged = { ...shared, ...Object.fromEntries(overrides.map(([name, value]) => [name.slice(prefix.length), value])) };
+    specs.push({ key, filters: parseCallFilters(merged) });
+  }
+  return specs;
+}
+
+export function compareCalls(reader: UsageReader, pricing: PricingRegistry, ids: string[]): CallComparison {
+  const rows: LlmCallTableRow[] = [];
+  const missingIds: string[] = [];
+  for (const id of ids) {
+    const row = reader.getCall(id);
+    if (row) {
+      rows.push(row);
+    } else {
+      missingIds.push(id);
+    }
+  }
+
+  const baseline = rows[0];
+  const baselineContent = baseline ? formatContent(baseline.content_json) : null;
+  const calls = rows.map((row, index): ComparedCall => {
+    const { costUsd, estimated } = resolveCost(row, pricing);
+    const content = formatContent(row.content_json);
+    return {
+      id: row.id,
+      timestamp: row.timestamp,
+      modelId: row.model_id ?? null,
+      tags: parseTags(row.tags_json),
+      finishReason: row.finish_reason ?? null,
+      isError: isErrorRow(row),
+      params: {
+        temperature: row.temperature ?? null,
+        topP: row.top_p ?? null,
+        maxOutputTokens: row.max_output_tokens ?? null,
+      },
+      usage: {
+        inputTokens: row.input_tokens ?? null,
+        outputTokens: row.output_tokens ?? null,
+        totalTokens: row.total_tokens ?? null,
+        cachedInputTokens: row.cached_input_tokens ?? null,
+        reasoningTokens: row.reasoning_tokens ?? null,
+      },
+      costUsd,
+      costEstimated: estimated,
+      latencyMs: row.latency_ms ?? null,
+      inputText: row.input_text ?? null,
+      content,
+      inputDiff: index === 0 ? null : diffLines(baseline.input_text ?? '', row.input_text ?? ''),
+      contentDiff: index === 0 ? null : diffLines(baselineContent ?? '', content ?? ''),
+    };
+  });
+
+  const varies = (pick: (call: ComparedCall) => unknown) => new Set(calls.map(pick)).size > 1;
+  return {
+    kind: 'calls',
+    calls,
+    missingIds,
+    differs: {
+      modelId: varies((call) => call.modelId),
+      temperature: varies((call) => call.params.temperature),
+      topP: varies((call) => call.params.topP),
+      maxOutputTokens: varies((call) => call.params.maxOutputTokens),
+      inputText: varies((call) => call.inputText),
+      content: varies((call) => call.content),
+    },
+  };
+}
+
+/** Summarises each group's calls, pricing rows saved without a cost as the overview does. */
+export function compareGroups(reader: UsageReader, pricing: PricingRegistry, specs: GroupSpec[]): GroupComparison {
+  const groups = specs.map((spec): ComparedGroup => {
+    const rows = reader
+      .listAnalyticsRows(spec.filters)
+      .map((row) => ({ ...row, cost_usd: resolveCost(row, pricing).costUsd }));
+    const query = filtersToQuery(spec.filters);
+    return {
+      key: spec.key,
+      label: Object.entries(query).map(([name, value]) => `${name}=${value}`).join(', ') || 'All calls',
+      query,
+      totals: summariseRows(rows),
+      distributions: Object.fromEntries(
+        DISTRIBUTION_METRICS.map((metric) => [metric, summariseMetric(rows, metric)])
+      ) as Record<DistributionMetric, Distribution>,
+    };
+  });
+
+  const scale = Object.fromEntries(
+    DISTRIBUTION_METRICS.map((metric) => [metric, Math.max(0, ...groups.map((group) => group.distributions[metric].max ?? 0))])
+  ) as Record<DistributionMetric, number>;
+  return { kind: 'groups', groups, scale };
+}
+
+/** Line-based diff from the longest common subsequence, after trimming the common prefix and suffix. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start += 1;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA -= 1;
+    endB -= 1;
+  }
+
+  const same = (lines: string[]) => lines.map((text): DiffLine => ({ kind: 'same', text }));
+  const head = same(a.slice(0, start));
+  const tail = same(a.slice(endA));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const removed = midA.map((text): DiffLine => ({ kind: 'removed', text }));
+  const added = midB.map((text): DiffLine => ({ kind: 'added', text }));
+  if (!midA.length || !midB.length || (midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    return [...head, ...removed, ...added, ...tail];
+  }
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..], stored row-major.
+  const width = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i -= 1) {
+    for (let j = midB.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ kind: 'same', text: midA[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push(removed[i]);
+      i += 1;
+    } else {
+      middle.push(added[j]);
+      j += 1;
+    }
+  }
+  return [...head, ...middle, ...removed.slice(i), ...added.slice(j), ...tail];
+}
+
+function formatContent(value: string | null): string | null {
+  if (value == null) return null;
+  const parsed = safeParseJson(value);
+  return typeof parsed === 'string' ? parsed : JSON.stringify(parsed, null, 2);
+}
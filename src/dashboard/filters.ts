@@ -0,0 +1,370 @@
+import { isCallType, type CallType } from '../model-calls.js';
+
+export type CallStatus = 'error' | 'success';
+
+export type CallFilters = {
+  model?: string;
+  callType?: CallType;             // query form `type`
+  tag?: string;
+  finishReason?: string;
+  traceId?: string;
+  sessionId?: string;
+  userId?: string;
+  tenantId?: string;
+  feature?: string;
+  attribute?: AttributeFilter;     // query form `attr=key:value`, or `attr=key` for any value
+  replayOf?: string;               // replays of this call id
+  toolName?: string;               // calls in which the model called this tool; query form `tool`
+  status?: CallStatus;
+  from?: Date;
+  to?: Date;
+  minTokens?: number;
+  maxTokens?: number;
+  minLatencyMs?: number;
+  maxLatencyMs?: number;
+  search?: string;
+};
+
+export type AttributeFilter = {
+  key: string;
+  value?: string;
+};
+
+export type PageCursor = {
+  timestamp: string;
+  id: string;
+};
+
+export type PageDirection = 'older' | 'newer';
+
+export type WhereClause = {
+  sql: string;                     // empty string when no filter applies
+  params: (string | number)[];
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const ERROR_CONDITION = "(finish_reason = 'error' OR error_json IS NOT NULL)";
+
+/** Reads filters from an Express query object, ignoring blank or malformed values. */
+export function parseCallFilters(query: Record<string, unknown>): CallFilters {
+  const filters: CallFilters = {};
+
+  const model = readString(query.model);
+  if (model) filters.model = model;
+  const callType = readString(query.type);
+  if (isCallType(callType)) filters.callType = callType;
+  const tag = readString(query.tag);
+  if (tag) filters.tag = tag;
+  const finishReason = readString(query.finishReason);
+  if (finishReason) filters.finishReason = finishReason;
+  const traceId = readString(query.trace);
+  if (traceId) filters.traceId = traceId;
+  const sessionId = readString(query.session);
+  if (sessionId) filters.sessionId = sessionId;
+  const userId = readString(query.user);
+  if (userId) filters.userId = userId;
+  const tenantId = readString(query.tenant);
+  if (tenantId) filters.tenantId = tenantId;
+  const feature = readString(query.feature);
+  if (feature) filters.feature = feature;
+  const attribute = parseAttributeFilter(query.attr);
+  if (attribute) filters.attribute = attribute;
+  const replayOf = readString(query.replayOf);
+  if (replayOf) filters.replayOf = replayOf;
+  const toolName = readString(query.tool);
+  if (toolName) filters.toolName = toolName;
+  const status = readString(query.status);
+  if (status === 'error' || status === 'success') filters.status = status;
+
+  const from = parseDateParam(query.from);
+  if (from) filters.from = from;
+  const to = parseDateParam(query.to, { endOfDay: true });
+  if (to) filters.to = to;
+
+  const minTokens = readNumber(query.minTokens);
+  if (minTokens != null) filters.minTokens = minTokens;
+  const maxTokens = readNumber(query.maxTokens);
+  if (maxTokens != null) filters.maxTokens = maxTokens;
+  const minLatencyMs = readNumber(query.minLatencyMs);
+  if (minLatencyMs != null) filters.minLatencyMs = minLatencyMs;
+  const maxLatencyMs = readNumber(query.maxLatencyMs);
+  if (maxLatencyMs != null) filters.maxLatencyMs = maxLatencyMs;
+
+  const search = readString(query.q);
+  if (search) filters.search = search;
+
+  return filters;
+}
+
+/** Builds the WHERE clause for `llm_calls`; full-text search goes through `llm_calls_fts`. */
+export function buildWhereClause(filters: CallFilters): WhereClause {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.model) {
+    conditions.push('model_id = ?');
+    params.push(filters.model);
+  }
+  if (filters.callType) {
+    conditions.push('call_type = ?');
+    params.push(filters.callType);
+  }
+  if (filters.tag) {
+    conditions.push(
+      "EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(llm_calls.tags_json) THEN llm_calls.tags_json ELSE '[]' END) WHERE value = ?)"
+    );
+    params.push(filters.tag);
+  }
+  if (filters.finishReason) {
+    conditions.push('finish_reason = ?');
+    params.push(filters.finishReason);
+  }
+  if (filters.traceId) {
+    conditions.push('trace_id = ?');
+    params.push(filters.traceId);
+  }
+  if (filters.sessionId) {
+    conditions.push('session_id = ?');
+    params.push(filters.sessionId);
+  }
+  if (filters.userId) {
+    conditions.push('user_id = ?');
+    params.push(filters.userId);
+  }
+  if (filters.tenantId) {
+    conditions.push('tenant_id = ?');
+    params.push(filters.tenantId);
+  }
+  if (filters.feature) {
+    conditions.push('feature = ?');
+    params.push(filters.feature);
+  }
+  if (filters.attribute) {
+    const { key, value } = filters.attribute;
+    conditions.push(
+      `EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(llm_calls.attributes_json) THEN llm_calls.attributes_json ELSE '{}' END) WHERE key = ?${value == null ? '' : ' AND value = ?'})`
+    );
+    params.push(key);
+    if (value != null) params.push(value);
+  }
+  if (filters.replayOf) {
+    conditions.push('replay_of = ?');
+    params.push(filters.replayOf);
+  }
+  if (filters.toolName) {
+    conditions.push('llm_calls.id IN (SELECT call_id FROM llm_tool_calls WHERE tool_name = ?)');
+    params.push(filters.toolName);
+  }
+  if (filters.status === 'error') {
+    conditions.push(ERROR_CONDITION);
+  } else if (filters.status === 'success') {
+    conditions.push(`NOT ${ERROR_CONDITION}`);
+  }
+  if (filters.from) {
+    conditions.push('timestamp >= ?');
+    params.push(filters.from.toISOString());
+  }
+  if (filters.to) {
+    conditions.push('timestamp <= ?');
+    params.push(filters.to.toISOString());
+  }
+  if (filters.minTokens != null) {
+    conditions.push('total_tokens >= ?');
+    params.push(filters.minTokens);
+  }
+  if (filters.maxTokens != null) {
+    conditions.push('total_tokens <= ?');
+    params.push(filters.maxTokens);
+  }
+  if (filters.minLatencyMs != null) {
+    conditions.push('latency_ms >= ?');
+    params.push(filters.minLatencyMs);
+  }
+  if (filters.maxLatencyMs != null) {
+    conditions.push('latency_ms <= ?');
+    params.push(filters.maxLatencyMs);
+  }
+  if (filters.search) {
+    conditions.push('llm_calls.rowid IN (SELECT rowid FROM llm_calls_fts WHERE llm_calls_fts MATCH ?)');
+    params.push(toFtsQuery(filters.search));
+  }
+
+  return {
+    sql: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/**
+ * Builds the WHERE clause for `llm_daily_usage`, whose rows count as calls
+ * made at the start of their UTC day. Returns null when a filter needs a
+ * column the rollups don't keep, since no rolled-up call can match it then.
+ */
+export function buildRollupWhereClause(filters: CallFilters): WhereClause | null {
+  const { model, callType, tag, finishReason, userId, tenantId, feature, from, to, ...unsupported } = filters;
+  if (Object.values(unsupported).some((value) => value != null)) return null;
+
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (model) {
+    conditions.push('model_id = ?');
+    params.push(model);
+  }
+  if (callType) {
+    conditions.push('call_type = ?');
+    params.push(callType);
+  }
+  if (tag) {
+    conditions.push(
+      "EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(llm_daily_usage.tags_json) THEN llm_daily_usage.tags_json ELSE '[]' END) WHERE value = ?)"
+    );
+    params.push(tag);
+  }
+  if (finishReason) {
+    conditions.push('finish_reason = ?');
+    params.push(finishReason);
+  }
+  if (userId) {
+    conditions.push('user_id = ?');
+    params.push(userId);
+  }
+  if (tenantId) {
+    conditions.push('tenant_id = ?');
+    params.push(tenantId);
+  }
+  if (feature) {
+    conditions.push('feature = ?');
+    params.push(feature);
+  }
+  if (from) {
+    conditions.push("day || 'T00:00:00.000Z' >= ?");
+    params.push(from.toISOString());
+  }
+  if (to) {
+    conditions.push("day || 'T00:00:00.000Z' <= ?");
+    params.push(to.toISOString());
+  }
+
+  return {
+    sql: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/** Adds the keyset condition for cursor pagination over `(timestamp, id)`. */
+export function appendCursorCondition(where: WhereClause, cursor: PageCursor, direction: PageDirection): WhereClause {
+  const comparison = direction === 'older' ? '<' : '>';
+  const condition = `(timestamp ${comparison} ? OR (timestamp = ? AND id ${comparison} ?))`;
+  return {
+    sql: where.sql ? `${where.sql} AND ${condition}` : `WHERE ${condition}`,
+    params: [...where.params, cursor.timestamp, cursor.timestamp, cursor.id],
+  };
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(`${cursor.timestamp}|${cursor.id}`, 'utf8').toString('base64url');
+}
+
+export function decodeCursor(value: unknown): PageCursor | null {
+  if (typeof value !== 'string' || !value) return null;
+  const decoded = Buffer.from(value, 'base64url').toString('utf8');
+  const separator = decoded.lastIndexOf('|');
+  if (separator <= 0) return null;
+  return { timestamp: decoded.slice(0, separator), id: decoded.slice(separator + 1) };
+}
+
+export function parsePageSize(value: unknown): number {
+  const parsed = readNumber(value);
+  if (parsed == null || parsed <= 0) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.floor(parsed), MAX_PAGE_SIZE);
+}
+
+/** Serialises filters back into query-string form for links and form values. */
+export function filtersToQuery(filters: CallFilters): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (filters.model) query.model = filters.model;
+  if (filters.callType) query.type = filters.callType;
+  if (filters.tag) query.tag = filters.tag;
+  if (filters.finishReason) query.finishReason = filters.finishReason;
+  if (filters.traceId) query.trace = filters.traceId;
+  if (filters.sessionId) query.session = filters.sessionId;
+  if (filters.userId) query.user = filters.userId;
+  if (filters.tenantId) query.tenant = filters.tenantId;
+  if (filters.feature) query.feature = filters.feature;
+  if (filters.attribute) query.attr = formatAttributeFilter(filters.attribute);
+  if (filters.replayOf) query.replayOf = filters.replayOf;
+  if (filters.toolName) query.tool = filters.toolName;
+  if (filters.status) query.status = filters.status;
+  if (filters.from) query.from = filters.from.toISOString().slice(0, 10);
+  if (filters.to) query.to = filters.to.toISOString().slice(0, 10);
+  if (filters.minTokens != null) query.minTokens = String(filters.minTokens);
+  if (filters.maxTokens != null) query.maxTokens = String(filters.maxTokens);
+  if (filters.minLatencyMs != null) query.minLatencyMs = String(filters.minLatencyMs);
+  if (filters.maxLatencyMs != null) query.maxLatencyMs = String(filters.maxLatencyMs);
+  if (filters.search) query.q = filters.search;
+  return query;
+}
+
+/** Reads `key:value` (or just `key`) into an attribute filter. */
+export function parseAttributeFilter(value: unknown): AttributeFilter | undefined {
+  const raw = readString(value);
+  if (!raw) return undefined;
+  const separator = raw.indexOf(':');
+  if (separator < 0) return { key: raw };
+  const key = raw.slice(0, separator).trim();
+  if (!key) return undefined;
+  return { key, value: raw.slice(separator + 1).trim() };
+}
+
+export function formatAttributeFilter(filter: AttributeFilter): string {
+  return filter.value == null ? filter.key : `${filter.key}:${filter.value}`;
+}
+
+export function buildQueryString(query: Record<string, string | undefined>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value != null && value !== '') params.set(key, value);
+  }
+  const serialised = params.toString();
+  return serialised ? `?${serialised}` : '';
+}
+
+export function parseDateParam(value: unknown, options: { endOfDay?: boolean } = {}): Date | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const trimmed = value.trim();
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+  const date = new Date(dateOnly ? `${trimmed}T00:00:00.000Z` : trimmed);
+  if (Number.isNaN(date.getTime())) return null;
+  if (dateOnly && options.endOfDay) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Turns free-form user input into a safe FTS5 query: every whitespace
+ * separated term is quoted, so operators and punctuation are matched
+ * literally and all terms must be present.
+ */
+function toFtsQuery(search: string): string {
+  return search
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(' ');
+}
+
+function readString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed || undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  const raw = readString(value);
+  if (raw == null) return undefined;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
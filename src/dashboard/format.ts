@@ -0,0 +1,68 @@
+import type { PricingRegistry } from '../pricing.js';
+import type { LlmCallTableRow } from '../storage/types.js';
+
+export function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  return `${text.slice(0, length - 1)}\u2026`;
+}
+
+export function safeParseJson(value: string | null): unknown {
+  if (value == null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export function parseTags(value: string | null): string[] {
+  if (!value) return [];
+  const parsed = safeParseJson(value);
+  return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+}
+
+/** Attributes of a row as a string map; empty for rows without any. */
+export function parseAttributes(value: string | null): Record<string, string> {
+  const parsed = safeParseJson(value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  return Object.fromEntries(Object.entries(parsed).map(([key, item]) => [key, String(item)]));
+}
+
+export function formatDateTime(value: string | null): string {
+  if (!value) return '—';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'medium',
+  }).format(date);
+}
+
+export function formatCurrency(value: number | null | undefined): string {
+  if (value == null) return '—';
+  if (value === 0) return '$0.00';
+  if (Math.abs(value) < 0.0001) return '<$0.0001';
+  if (Math.abs(value) >= 1) return `$${value.toFixed(2)}`;
+  return `$${Number(value.toPrecision(3))}`;
+}
+
+export function formatBytes(value: number | null | undefined): string {
+  if (value == null) return '—';
+  if (value < 1024) return `${Math.round(value)} B`;
+  if (value < 1024 * 1024) return `${(value / 1024).toFixed(1)} KB`;
+  return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function resolveCost(
+  row: Pick<LlmCallTableRow, 'model_id' | 'cost_usd' | 'input_tokens' | 'output_tokens' | 'cached_input_tokens' | 'reasoning_tokens'>,
+  pricing: PricingRegistry
+): { costUsd: number | null; estimated: boolean } {
+  if (row.cost_usd != null) return { costUsd: row.cost_usd, estimated: false };
+  const costUsd = pricing.estimateCost(row.model_id, {
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    cachedInputTokens: row.cached_input_tokens,
+    reasoningTokens: row.reasoning_tokens,
+  });
+  return { costUsd, estimated: costUsd != null };
+}
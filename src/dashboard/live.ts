@@ -0,0 +1,97 @@
+import type { Request, Response } from 'express';
+import type { PricingRegistry } from '../pricing.js';
+import type { UsageReader } from '../storage/types.js';
+import { toApiCallSummary, type ApiCallSummary } from './api.js';
+import { parseCallFilters } from './filters.js';
+
+/** Payload of a `calls` event on the live stream. */
+export type ApiLiveEvent = {
+  data: ApiCallSummary[];          // oldest first
+  cursor: number;                  // also sent as the event id
+};
+
+export type LiveStreamOptions = {
+  reader: UsageReader;
+  pricing: PricingRegistry;
+  pollIntervalMs?: number;         // default 1000
+};
+
+export type LiveStream = {
+  handler: (req: Request, res: Response) => void;
+  /** Ends every open stream so the HTTP server can close. */
+  close: () => void;
+};
+
+const LIVE_BATCH_SIZE = 100;
+const HEARTBEAT_MS = 15_000;
+const RECONNECT_MS = 3_000;
+
+/**
+ * Server-Sent Events endpoint that tails newly saved calls. The writer is
+ * usually another process, so each client polls the reader for rows past
+ * its change cursor rather than being notified. Query parameters are the
+ * usual call filters; reconnecting clients resume from `Last-Event-ID`, and
+ * `?since=<cursor>` does the same for scripts.
+ */
+export function createLiveStream(options: LiveStreamOptions): LiveStream {
+  const { reader, pricing, pollIntervalMs = 1000 } = options;
+  const open = new Set<() => void>();  // stop functions of connected clients
+
+  const handler = (req: Request, res: Response) => {
+    const filters = parseCallFilters(req.query);
+    const resumeFrom = Number(req.get('last-event-id') ?? req.query.since);
+    let cursor = Number.isInteger(resumeFrom) && resumeFrom >= 0 ? resumeFrom : reader.latestCursor();
+    let lastWrite = Date.now();
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',   // stop nginx from buffering the stream
+    });
+    res.flushHeaders();
+    const write = (chunk: string) => {
+      res.write(chunk);
+      lastWrite = Date.now();
+    };
+    write(`retry: ${RECONNECT_MS}\nevent: ready\nid: ${cursor}\ndata: ${JSON.stringify({ cursor })}\n\n`);
+
+    const poll = () => {
+      try {
+        // Drain everything saved since the last poll, a batch per event.
+        for (;;) {
+          const batch = reader.listNewCalls(cursor, filters, LIVE_BATCH_SIZE);
+          const advanced = batch.cursor !== cursor;
+          cursor = batch.cursor;
+          if (batch.rows.length) {
+            const event: ApiLiveEvent = { data: batch.rows.map((row) => toApiCallSummary(row, pricing)), cursor };
+            write(`event: calls\nid: ${cursor}\ndata: ${JSON.stringify(event)}\n\n`);
+          }
+          if (!advanced || batch.rows.length < LIVE_BATCH_SIZE) break;
+        }
+        if (Date.now() - lastWrite >= HEARTBEAT_MS) write(': heartbeat\n\n');
+      } catch (err) {
+        // The client reconnects after `retry` and resumes from the last event id.
+        process.emitWarning(`Live stream poll failed: ${err instanceof Error ? err.message : String(err)}`, {
+          code: 'LLM_USAGE_LIVE_POLL_FAILURE',
+        });
+        stop();
+      }
+    };
+
+    const timer = setInterval(poll, pollIntervalMs);
+    const stop = () => {
+      clearInterval(timer);
+      if (open.delete(stop)) res.end();
+    };
+    open.add(stop);
+    req.on('close', stop);
+  };
+
+  return {
+    handler,
+    close: () => {
+      for (const stop of [...open]) stop();
+    },
+  };
+}
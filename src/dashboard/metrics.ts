@@ -0,0 +1,204 @@
+import type { PricingRegistry } from '../pricing.js';
+import type { AnalyticsRow, MetricsGroup } from '../storage/types.js';
+import { isErrorRow } from './analytics.js';
+import { parseTags } from './format.js';
+
+/** Upper bounds of the latency histogram buckets, in seconds. */
+export const LATENCY_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+type Labels = Record<string, string>;
+
+type Sample = {
+  labels: Labels;
+  value: number;
+};
+
+type Histogram = {
+  labels: Labels;
+  buckets: number[];               // cumulative counts per bucket bound
+  count: number;
+  sum: number;
+};
+
+const TOKEN_TYPES = [
+  ['input', 'input_tokens'],
+  ['output', 'output_tokens'],
+  ['cached_input', 'cached_input_tokens'],
+  ['reasoning', 'reasoning_tokens'],
+] as const;
+
+/**
+ * Renders stored calls in the Prometheus text exposition format from the
+ * reader's `metricsGroups`. Calls, tokens and cost include the rollups of
+ * rows deleted by retention, so they keep behaving as counters after a
+ * prune; the latency histogram only covers rows that are still stored.
+ * Calls with several tags count towards each tag in
+ * `llm_usage_tokens_total`; untagged calls have an empty `tag` label.
+ */
+export function renderPrometheusMetrics(groups: MetricsGroup[], pricing: PricingRegistry): string {
+  const calls = new Map<string, Sample>();
+  const tokens = new Map<string, Sample>();
+  const cost = new Map<string, Sample>();
+  const latency = new Map<string, Histogram>();
+
+  for (const group of groups) {
+    const model = group.model_id ?? '';
+    const finishReason = group.finish_reason ?? '';
+    const status = group.is_error ? 'error' : 'success';
+
+    increment(calls, { model, finish_reason: finishReason, status }, group.calls);
+
+    const tags = parseTags(group.tags_json);
+    for (const tag of tags.length ? tags : ['']) {
+      for (const [type, column] of TOKEN_TYPES) {
+        const value = group[column];
+        if (value) increment(tokens, { model, tag, finish_reason: finishReason, type }, value);
+      }
+    }
+
+    const estimated = pricing.estimateCost(group.model_id, {
+      inputTokens: group.unpriced_input_tokens,
+      outputTokens: group.unpriced_output_tokens,
+      cachedInputTokens: group.unpriced_cached_input_tokens,
+      reasoningTokens: group.unpriced_reasoning_tokens,
+    });
+    const costUsd = group.cost_usd + (estimated ?? 0);
+    if (costUsd) increment(cost, { model }, costUsd);
+
+    if (group.latency_count) observe(latency, { model }, group);
+  }
+
+  return [
+    ...renderFamily('llm_usage_calls_total', 'counter', 'Model calls logged, by model, finish reason and status.', calls),
+    ...renderFamily('llm_usage_tokens_total', 'counter', 'Tokens used, by model, tag, finish reason and token type.', tokens),
+    ...renderFamily('llm_usage_cost_usd_total', 'counter', 'Stored or estimated cost in USD, by model.', cost),
+    ...renderHistogram('llm_usage_latency_seconds', 'Model call latency in seconds, by model.', latency),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Aggregates rows into `MetricsGroup`s, for readers without a query engine
+ * and for rolled-up rows. A rolled-up row's errors are counted apart from
+ * its other calls, which carry its tokens and cost.
+ */
+export function groupMetricsRows(rows: Iterable<AnalyticsRow>): MetricsGroup[] {
+  const groups = new Map<string, MetricsGroup>();
+  const groupFor = (row: AnalyticsRow, isError: number) => {
+    const key = JSON.stringify([row.model_id, row.finish_reason, isError, row.tags_json]);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        model_id: row.model_id,
+        finish_reason: row.finish_reason,
+        is_error: isError,
+        tags_json: row.tags_json,
+        calls: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        cached_input_tokens: 0,
+        reasoning_tokens: 0,
+        cost_usd: 0,
+        unpriced_input_tokens: 0,
+        unpriced_output_tokens: 0,
+        unpriced_cached_input_tokens: 0,
+        unpriced_reasoning_tokens: 0,
+        latency_count: 0,
+        latency_ms: 0,
+        latency_buckets: LATENCY_BUCKETS_SECONDS.map(() => 0),
+      };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  for (const row of rows) {
+    const calls = row.calls ?? 1;
+    const errors = row.errors ?? (isErrorRow(row) ? calls : 0);
+    const group = groupFor(row, errors === calls ? 1 : 0);
+    if (errors && errors < calls) {
+      groupFor(row, 1).calls += errors;
+      group.calls += calls - errors;
+    } else {
+      group.calls += calls;
+    }
+
+    for (const [, column] of TOKEN_TYPES) group[column] += row[column] ?? 0;
+    if (row.cost_usd != null) {
+      group.cost_usd += row.cost_usd;
+    } else {
+      const inputTokens = row.input_tokens ?? 0;
+      const outputTokens = row.output_tokens ?? 0;
+      group.unpriced_input_tokens += inputTokens;
+      group.unpriced_output_tokens += outputTokens;
+      group.unpriced_cached_input_tokens += Math.min(row.cached_input_tokens ?? 0, inputTokens);
+      group.unpriced_reasoning_tokens += Math.min(row.reasoning_tokens ?? 0, outputTokens);
+    }
+    if (row.latency_ms != null) {
+      const seconds = row.latency_ms / 1000;
+      group.latency_count += 1;
+      group.latency_ms += row.latency_ms;
+      LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+        if (seconds <= bound) group.latency_buckets[index] += 1;
+      });
+    }
+  }
+  return [...groups.values()];
+}
+
+function increment(samples: Map<string, Sample>, labels: Labels, value: number) {
+  const key = JSON.stringify(labels);
+  const sample = samples.get(key);
+  if (sample) {
+    sample.value += value;
+  } else {
+    samples.set(key, { labels, value });
+  }
+}
+
+function observe(histograms: Map<string, Histogram>, labels: Labels, group: MetricsGroup) {
+  const key = JSON.stringify(labels);
+  let histogram = histograms.get(key);
+  if (!histogram) {
+    histogram = { labels, buckets: LATENCY_BUCKETS_SECONDS.map(() => 0), count: 0, sum: 0 };
+    histograms.set(key, histogram);
+  }
+  group.latency_buckets.forEach((count, index) => {
+    histogram.buckets[index] += count;
+  });
+  histogram.count += group.latency_count;
+  histogram.sum += group.latency_ms / 1000;
+}
+
+function renderFamily(name: string, type: string, help: string, samples: Map<string, Sample>): string[] {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} ${type}`,
+    ...[...samples.values()].map((sample) => `${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`),
+  ];
+}
+
+function renderHistogram(name: string, help: string, histograms: Map<string, Histogram>): string[] {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+  for (const histogram of histograms.values()) {
+    LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+      lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: String(bound) })} ${histogram.buckets[index]}`);
+    });
+    lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+    lines.push(`${name}_sum${formatLabels(histogram.labels)} ${formatValue(histogram.sum)}`);
+    lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+  }
+  return lines;
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
+}
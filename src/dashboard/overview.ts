@@ -0,0 +1,88 @@
+import type { TimeBucket, UsageOverview } from './analytics.js';
+import { buildLineChart, buildStackedBarChart, CHART_COLORS, formatCompactNumber, type Chart } from './charts.js';
+
+export type OverviewCharts = {
+  calls: Chart;
+  tokens: Chart;
+  tokensByModel: Chart;
+  tokensByTag: Chart;
+  errorRate: Chart;
+  latency: Chart;
+  cost: Chart;
+};
+
+export function buildOverviewCharts(overview: UsageOverview): OverviewCharts {
+  const { series } = overview;
+  const labels = series.map((point) => formatBucketLabel(point.bucketStart, overview.bucket));
+
+  return {
+    calls: buildStackedBarChart(
+      [
+        { label: 'Successful', color: CHART_COLORS[0], values: series.map((p) => p.calls - p.errors) },
+        { label: 'Errors', color: CHART_COLORS[3], values: series.map((p) => p.errors) },
+      ],
+      { labels }
+    ),
+    tokens: buildStackedBarChart(
+      [
+        { label: 'Input', color: CHART_COLORS[0], values: series.map((p) => Math.max(0, p.inputTokens - p.cachedInputTokens)) },
+        { label: 'Cached input', color: CHART_COLORS[5], values: series.map((p) => Math.min(p.cachedInputTokens, p.inputTokens)) },
+        { label: 'Output', color: CHART_COLORS[1], values: series.map((p) => Math.max(0, p.outputTokens - p.reasoningTokens)) },
+        { label: 'Reasoning', color: CHART_COLORS[4], values: series.map((p) => Math.min(p.reasoningTokens, p.outputTokens)) },
+      ],
+      { labels }
+    ),
+    tokensByModel: buildStackedBarChart(
+      overview.tokensByModel.map((group, index) => ({
+        label: group.key,
+        color: CHART_COLORS[index % CHART_COLORS.length],
+        values: group.totalTokens,
+      })),
+      { labels }
+    ),
+    tokensByTag: buildStackedBarChart(
+      overview.tokensByTag.map((group, index) => ({
+        label: group.key,
+        color: CHART_COLORS[index % CHART_COLORS.length],
+        values: group.totalTokens,
+      })),
+      { labels }
+    ),
+    errorRate: buildStackedBarChart(
+      [{ label: 'Error rate', color: CHART_COLORS[3], values: series.map((p) => p.errorRate) }],
+      { labels, formatValue: formatPercent }
+    ),
+    latency: buildLineChart(
+      [
+        { label: 'p50', color: CHART_COLORS[0], values: series.map((p) => p.latency.p50 ?? 0) },
+        { label: 'p95', color: CHART_COLORS[2], values: series.map((p) => p.latency.p95 ?? 0) },
+        { label: 'p99', color: CHART_COLORS[3], values: series.map((p) => p.latency.p99 ?? 0) },
+      ],
+      { labels, formatValue: (value) => `${formatCompactNumber(value)} ms` }
+    ),
+    cost: buildStackedBarChart(
+      [{ label: 'Cost', color: CHART_COLORS[1], values: series.map((p) => p.costUsd) }],
+      { labels, formatValue: (value) => `$${value.toFixed(value >= 1 ? 2 : 4)}` }
+    ),
+  };
+}
+
+export function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(value > 0 && value < 0.01 ? 2 : 1)}%`;
+}
+
+function formatBucketLabel(isoTimestamp: string, bucket: TimeBucket): string {
+  const date = new Date(isoTimestamp);
+  if (bucket === 'hour') {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+      timeZone: 'UTC',
+    }).format(date);
+  }
+  const day = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }).format(date);
+  return bucket === 'week' ? `Week of ${day}` : day;
+}
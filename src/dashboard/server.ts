@@ -3,23 +3,63 @@ import ejsMate from 'ejs-mate';
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import Database from 'better-sqlite3';
 import type { Server } from 'node:http';
+import https from 'node:https';
 import type { AddressInfo } from 'node:net';
+import { isCallType, type CallType } from '../model-calls.js';
+import { createPricingRegistry, type PricingTable } from '../pricing.js';
+import { openUsageReader } from '../storage/open.js';
+import type { LlmCallTableRow, StorageAdapter, UsageReader } from '../storage/types.js';
+import {
+  isErrorRow,
+  isGroupDimension,
+  isTimeBucket,
+  loadUsageBreakdown,
+  loadUsageOverview,
+  TIME_BUCKETS,
+  UNATTRIBUTED_KEY,
+} from './analytics.js';
+import { createApiRouter, toApiAlert } from './api.js';
+import { createAuthMiddleware, InsecureBindingError, isLoopbackHost, type DashboardAuth } from './auth.js';
+import { formatCompactNumber } from './charts.js';
+import { compareCalls, compareGroups, DISTRIBUTION_METRICS, parseCompareIds, parseGroupSpecs } from './compare.js';
+import {
+  buildQueryString,
+  decodeCursor,
+  encodeCursor,
+  filtersToQuery,
+  parseCallFilters,
+  parsePageSize,
+} from './filters.js';
+import { formatBytes, formatCurrency, formatDateTime, parseTags, resolveCost, safeParseJson, truncate } from './format.js';
+import { createLiveStream } from './live.js';
+import { renderPrometheusMetrics } from './metrics.js';
+import { buildOverviewCharts, formatPercent } from './overview.js';
+import { loadTenantReport, resolveBillingRange, tenantReportCsv } from './tenants.js';
+import { buildToolInspection, loadToolReport } from './tools.js';
+import { buildTraceSummary } from './traces.js';
 
 export type DashboardServerOptions = {
-  dbPath: string;
+  dbPath?: string;                 // SQLite database, or an .ndjson/.jsonl usage file
+  storage?: StorageAdapter;        // any backend exposing `createReader`, instead of dbPath
   port?: number;
   host?: string;
+  pricing?: PricingTable;          // used to estimate cost for rows saved without one
+  pricingFile?: string;
+  metrics?: boolean;               // serve Prometheus metrics at /metrics, default true
+  auth?: DashboardAuth;            // required for non-loopback hosts unless allowInsecureRemote is set
+  allowInsecureRemote?: boolean;   // serve a non-loopback host without auth, with a warning
+  tls?: { certFile: string; keyFile: string };  // serve HTTPS with a local certificate
+  livePollMs?: number;             // how often live tailing checks for new rows, default 1000
 };
 
 export type DashboardServerHandle = {
   app: Express;
-  server: Server;
+  server: Server | https.Server;
   host: string;
   port: number;
   url: string;
-  dbPath: string;
+  dbPath: string;                  // resolved file path, or the adapter's target
   close: () => Promise<void>;
 };
 
@@ -30,7 +70,8 @@ type ColumnType =
   | 'datetime'
   | 'number'
   | 'boolean'
-  | 'duration';
+  | 'duration'
+  | 'currency';
 
 type ColumnSpec = {
   key: keyof LlmCallTableRow;
@@ -39,32 +80,6 @@ type ColumnSpec = {
   type: ColumnType;
 };
 
-type LlmCallTableRow = {
-  id: string;
-  timestamp: string;
-  model_id: string | null;
-  tags_json: string | null;
-  input_text: string | null;
-  content_json: string | null;
-  input_tokens: number | null;
-  output_tokens: number | null;
-  total_tokens: number | null;
-  cached_input_tokens: number | null;
-  reasoning_tokens: number | null;
-  request_tools_json: string | null;
-  temperature: number | null;
-  top_p: number | null;
-  max_output_tokens: number | null;
-  finish_reason: string | null;
-  latency_ms: number | null;
-  warnings_json: string | null;
-  request_id: string | null;
-  response_id: string | null;
-  headers_json: string | null;
-  meta_json: string | null;
-  error_json: string | null;
-};
-
 type DetailField = {
   key: string;
   label: string;
@@ -78,10 +93,15 @@ type ListEntry = {
   timestamp: string;
   formattedTimestamp: string;
   modelId: string | null;
+  callType: CallType;
   tags: string[];
   inputPreview: string | null;
   totalTokens: number | null;
+  costUsd: number | null;
+  costEstimated: boolean;
   latencyMs: number | null;
+  isError: boolean;
+  traceId: string | null;
 };
 
 const COLUMN_SPECS: ColumnSpec[] = [
@@ -103,24 +123,108 @@ const COLUMN_SPECS: ColumnSpec[] = [
     description: 'Model identifier supplied with the request.',
     type: 'text',
   },
+  {
+    key: 'call_type',
+    label: 'Call Type',
+    description: 'Kind of model called: text, embedding, image or speech.',
+    type: 'text',
+  },
   {
     key: 'tags_json',
     label: 'Tags',
     description: 'Tags forwarded through middleware options.',
     type: 'json',
   },
+  {
+    key: 'capture_level',
+    label: 'Capture Level',
+    description: 'How much of the call was stored: usage, metadata or full.',
+    type: 'text',
+  },
+  {
+    key: 'trace_id',
+    label: 'Trace ID',
+    description: 'Shared by the model calls of one run.',
+    type: 'text',
+  },
+  {
+    key: 'span_id',
+    label: 'Span ID',
+    description: 'Identifier of this call within its trace.',
+    type: 'text',
+  },
+  {
+    key: 'parent_span_id',
+    label: 'Parent Span ID',
+    description: 'The run or call that made this call.',
+    type: 'text',
+  },
+  {
+    key: 'session_id',
+    label: 'Session ID',
+    description: 'Groups related runs, such as one conversation.',
+    type: 'text',
+  },
+  {
+    key: 'user_id',
+    label: 'User ID',
+    description: 'End user the call was made for.',
+    type: 'text',
+  },
+  {
+    key: 'tenant_id',
+    label: 'Tenant ID',
+    description: 'Customer or workspace the call is billed to.',
+    type: 'text',
+  },
+  {
+    key: 'feature',
+    label: 'Feature',
+    description: 'Product feature that made the call.',
+    type: 'text',
+  },
+  {
+    key: 'attributes_json',
+    label: 'Attributes',
+    description: 'Other attribution dimensions passed with the call or by the resolver.',
+    type: 'json',
+  },
+  {
+    key: 'replay_of',
+    label: 'Replay Of',
+    description: 'The logged call this call replays.',
+    type: 'text',
+  },
   {
     key: 'input_text',
     label: 'Input Text',
     description: 'Human-readable prompt that was sent to the provider.',
     type: 'multiline',
   },
+  {
+    key: 'prompt_json',
+    label: 'Prompt',
+    description: 'Provider-independent messages passed to the model, used for replay.',
+    type: 'json',
+  },
+  {
+    key: 'input_count',
+    label: 'Input Count',
+    description: 'Values embedded, images requested or characters of speech text.',
+    type: 'number',
+  },
   {
     key: 'content_json',
     label: 'Content JSON',
     description: 'Structured content array provided by the SDK.',
     type: 'json',
   },
+  {
+    key: 'dimensions',
+    label: 'Dimensions',
+    description: 'Length of each embedding vector.',
+    type: 'number',
+  },
   {
     key: 'input_tokens',
     label: 'Input Tokens',
@@ -151,6 +255,12 @@ const COLUMN_SPECS: ColumnSpec[] = [
     description: 'Reasoning tokens reported by the provider.',
     type: 'number',
   },
+  {
+    key: 'cost_usd',
+    label: 'Cost',
+    description: 'Estimated cost in USD derived from the model pricing table.',
+    type: 'currency',
+  },
   {
     key: 'request_tools_json',
     label: 'Requested Tools',
@@ -175,6 +285,12 @@ const COLUMN_SPECS: ColumnSpec[] = [
     description: 'Maximum output tokens allowed for the call.',
     type: 'number',
   },
+  {
+    key: 'call_options_json',
+    label: 'Other Call Options',
+    description: 'Settings such as tool choice, seed or stop sequences.',
+    type: 'json',
+  },
   {
     key: 'finish_reason',
     label: 'Finish Reason',
@@ -187,6 +303,18 @@ const COLUMN_SPECS: ColumnSpec[] = [
     description: 'Time between request and response completion in milliseconds.',
     type: 'duration',
   },
+  {
+    key: 'time_to_first_token_ms',
+    label: 'Time to First Token',
+    description: 'Streaming only: time until the first content delta arrived.',
+    type: 'duration',
+  },
+  {
+    key: 'part_timings_json',
+    label: 'Part Timings',
+    description: 'Streaming only: start and end of each content part, in ms after the call started.',
+    type: 'json',
+  },
   {
     key: 'warnings_json',
     label: 'Warnings',
@@ -223,20 +351,28 @@ const COLUMN_SPECS: ColumnSpec[] = [
     description: 'Error payload stored when the call failed.',
     type: 'json',
   },
+  {
+    key: 'redactions_json',
+    label: 'Redactions',
+    description: 'Redaction rules that fired before the row was saved.',
+    type: 'json',
+  },
 ];
 
 export async function startDashboardServer(options: DashboardServerOptions): Promise<DashboardServerHandle> {
-  const { dbPath, port = 4545, host = '127.0.0.1' } = options;
-  if (!dbPath) {
-    throw new Error('A path to the SQLite database must be provided.');
-  }
-
-  const absoluteDbPath = path.resolve(dbPath);
-  if (!fs.existsSync(absoluteDbPath)) {
-    throw new Error(`No SQLite database found at "${absoluteDbPath}"`);
+  const { port = 4545, host = '127.0.0.1' } = options;
+  if (!options.auth && !isLoopbackHost(host)) {
+    if (!options.allowInsecureRemote) throw new InsecureBindingError(host);
+    process.emitWarning(`The usage dashboard on "${host}" has no authentication; anyone who can reach it can read logged prompts.`, {
+      code: 'LLM_USAGE_DASHBOARD_INSECURE',
+    });
   }
-
-  const db = new Database(absoluteDbPath, { readonly: true, fileMustExist: true });
+  const auth = options.auth ? createAuthMiddleware(options.auth) : null;
+  const tls = options.tls
+    ? { cert: fs.readFileSync(options.tls.certFile), key: fs.readFileSync(options.tls.keyFile) }
+    : null;
+  const pricing = createPricingRegistry({ prices: options.pricing, pricingFile: options.pricingFile });
+  const { reader, target } = openReader(options);
 
   const app = express();
   app.engine('ejs', ejsMate as any);
@@ -244,41 +380,206 @@ export async function startDashboardServer(options: DashboardServerOptions): Pro
   app.set('views', resolveViewsDirectory());
 
   app.locals.formatDateTime = formatDateTime;
+  app.locals.formatCurrency = formatCurrency;
+  app.locals.formatPercent = formatPercent;
+  app.locals.formatCompactNumber = formatCompactNumber;
+  app.locals.formatBytes = formatBytes;
 
-  const listStatement = db.prepare(
-    'SELECT id, timestamp, model_id, tags_json, input_text, total_tokens, latency_ms FROM llm_calls ORDER BY datetime(timestamp) DESC'
-  );
-  const detailStatement = db.prepare(
-    'SELECT * FROM llm_calls WHERE id = ?'
-  );
+  const live = createLiveStream({ reader, pricing, pollIntervalMs: options.livePollMs });
 
-  app.get('/', (_req, res) => {
-    const rows = listStatement.all() as LlmCallTableRow[];
-    const entries: ListEntry[] = rows.map((row) => ({
-      id: row.id,
-      timestamp: row.timestamp,
-      formattedTimestamp: formatDateTime(row.timestamp),
-      modelId: row.model_id ?? null,
-      tags: (safeParseJson(row.tags_json) as string[] | null) ?? [],
-      inputPreview: row.input_text ? truncate(row.input_text, 140) : null,
-      totalTokens: row.total_tokens ?? null,
-      latencyMs: row.latency_ms ?? null,
-    }));
-
-    res.render('index', { entries });
+  if (auth) app.use(auth);
+  app.get('/api/v1/live', live.handler);
+  app.use('/api/v1', createApiRouter({ reader, pricing }));
+
+  if (options.metrics ?? true) {
+    app.get('/metrics', (_req, res) => {
+      res.type('text/plain; version=0.0.4; charset=utf-8');
+      res.send(renderPrometheusMetrics(reader.metricsGroups(), pricing));
+    });
+  }
+
+  app.get('/', (req, res) => {
+    const filters = parseCallFilters(req.query);
+    const pageSize = parsePageSize(req.query.limit);
+    // Live mode tails from the newest page, so it ignores paging cursors.
+    const isLive = req.query.live === '1';
+    const before = isLive ? null : decodeCursor(req.query.before);
+    const after = before || isLive ? null : decodeCursor(req.query.after);
+    const { rows, total, hasOlder, hasNewer } = reader.listCalls(filters, { pageSize, before, after });
+
+    const entries: ListEntry[] = rows.map((row) => {
+      const { costUsd, estimated } = resolveCost(row, pricing);
+      return {
+        id: row.id,
+        timestamp: row.timestamp,
+        formattedTimestamp: formatDateTime(row.timestamp),
+        modelId: row.model_id ?? null,
+        callType: isCallType(row.call_type) ? row.call_type : 'text',
+        tags: parseTags(row.tags_json),
+        inputPreview: row.input_text ? truncate(row.input_text, 140) : null,
+        totalTokens: row.total_tokens ?? null,
+        costUsd,
+        costEstimated: estimated,
+        latencyMs: row.latency_ms ?? null,
+        isError: isErrorRow(row),
+        traceId: row.trace_id ?? null,
+      };
+    });
+
+    const baseQuery = { ...filtersToQuery(filters), limit: req.query.limit ? String(pageSize) : undefined };
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+
+    res.render('index', {
+      entries,
+      total,
+      filters: filtersToQuery(filters),
+      live: {
+        enabled: isLive,
+        toggleHref: `/${buildQueryString({ ...baseQuery, live: isLive ? undefined : '1' })}`,
+        streamHref: `/api/v1/live${buildQueryString(filtersToQuery(filters))}`,
+      },
+      ...reader.facets(),
+      pagination: {
+        newestHref: before || after ? `/${buildQueryString(baseQuery)}` : null,
+        newerHref: hasNewer && first
+          ? `/${buildQueryString({ ...baseQuery, after: encodeCursor({ timestamp: first.timestamp, id: first.id }) })}`
+          : null,
+        olderHref: hasOlder && last
+          ? `/${buildQueryString({ ...baseQuery, before: encodeCursor({ timestamp: last.timestamp, id: last.id }) })}`
+          : null,
+      },
+    });
+  });
+
+  app.get('/overview', (req, res) => {
+    const bucket = isTimeBucket(req.query.bucket) ? req.query.bucket : 'day';
+    const filters = parseCallFilters(req.query);
+    const overview = loadUsageOverview(reader, pricing, bucket, filters);
+    // Model and tag breakdowns are always shown; other dimensions on request.
+    const groupBy = isGroupDimension(req.query.groupBy) && !isTimeBucket(req.query.groupBy) && req.query.groupBy !== 'model' && req.query.groupBy !== 'tag'
+      ? req.query.groupBy
+      : null;
+
+    res.render('overview', {
+      overview,
+      breakdown: groupBy
+        ? loadUsageBreakdown(reader, pricing, groupBy, { ...filters, from: new Date(overview.from), to: new Date(overview.to) })
+        : null,
+      charts: buildOverviewCharts(overview),
+      filters: {
+        bucket,
+        from: overview.from.slice(0, 10),
+        to: overview.to.slice(0, 10),
+        model: filters.model ?? null,
+        type: filters.callType ?? null,
+        tag: filters.tag ?? null,
+        tenant: filters.tenantId ?? null,
+        feature: filters.feature ?? null,
+        groupBy,
+      },
+      buckets: TIME_BUCKETS,
+      ...reader.facets(),
+    });
+  });
+
+  app.get('/tenants', (req, res) => {
+    const filters = parseCallFilters(req.query);
+    const report = loadTenantReport(reader, pricing, filters);
+    const now = new Date();
+    const thisMonth = resolveBillingRange(null, null, now).from;
+    const lastMonth = new Date(Date.UTC(thisMonth.getUTCFullYear(), thisMonth.getUTCMonth() - 1, 1));
+    const endOfLastMonth = new Date(thisMonth.getTime() - 24 * 60 * 60 * 1000);
+    const { from: _from, to: _to, ...scope } = filtersToQuery(filters);
+
+    res.render('tenants', {
+      report,
+      filters: { ...scope, from: isoDate(new Date(report.from)), to: isoDate(new Date(report.to)) },
+      csvHref: `/tenants.csv${buildQueryString({ ...scope, from: isoDate(new Date(report.from)), to: isoDate(new Date(report.to)) })}`,
+      ranges: [
+        { label: 'This month', href: `/tenants${buildQueryString({ ...scope, from: isoDate(thisMonth) })}` },
+        { label: 'Last month', href: `/tenants${buildQueryString({ ...scope, from: isoDate(lastMonth), to: isoDate(endOfLastMonth) })}` },
+      ],
+      // Calls without a tenant cannot be filtered on, so `(none)` gets no link.
+      entriesHref: (tenant: string) =>
+        tenant === UNATTRIBUTED_KEY
+          ? null
+          : `/${buildQueryString({ ...scope, tenant, from: isoDate(new Date(report.from)), to: isoDate(new Date(report.to)) })}`,
+      ...reader.facets(),
+    });
+  });
+
+  app.get('/tenants.csv', (req, res) => {
+    const report = loadTenantReport(reader, pricing, parseCallFilters(req.query));
+    const name = `tenant-usage-${report.from.slice(0, 10)}-${report.to.slice(0, 10)}.csv`;
+    res.type('text/csv; charset=utf-8').attachment(name).send(tenantReportCsv(report));
+  });
+
+  app.get('/tools', (req, res) => {
+    const filters = parseCallFilters(req.query);
+    const report = loadToolReport(reader, filters);
+    const { from: _from, to: _to, ...scope } = filtersToQuery(filters);
+    const range = { from: isoDate(new Date(report.from)), to: isoDate(new Date(report.to)) };
+
+    res.render('tools', {
+      report,
+      filters: { ...scope, ...range },
+      entriesHref: (tool: string) => `/${buildQueryString({ ...scope, ...range, tool })}`,
+      ...reader.facets(),
+    });
+  });
+
+  app.get('/alerts', (req, res) => {
+    res.render('alerts', { alerts: reader.listAlerts(parsePageSize(req.query.limit)).map(toApiAlert) });
+  });
+
+  app.get('/compare', (req, res) => {
+    const specs = parseGroupSpecs(req.query);
+    const ids = parseCompareIds(req.query.ids);
+    let notice: string | null = null;
+    let comparison = null;
+    if (req.query.ids != null) {
+      if (ids.length >= 2) {
+        comparison = compareCalls(reader, pricing, ids);
+      } else {
+        notice = 'Select at least two entries to compare.';
+      }
+    } else if (specs.length >= 2) {
+      comparison = compareGroups(reader, pricing, specs);
+    } else if (specs.length === 1) {
+      notice = 'Add filters for a second group.';
+    }
+
+    const form: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.query)) {
+      if (typeof value === 'string') form[name] = value;
+    }
+    res.render('compare', {
+      comparison,
+      notice,
+      form,
+      metrics: DISTRIBUTION_METRICS,
+      ...reader.facets(),
+    });
   });
 
   app.get('/entries/:id', (req, res) => {
     const id = req.params.id;
-    const row = detailStatement.get(id) as LlmCallTableRow | undefined;
+    const row = reader.getCall(id);
     if (!row) {
       res.status(404).render('not-found', { id });
       return;
     }
 
+    const cost = resolveCost(row, pricing);
     const detailFields: DetailField[] = COLUMN_SPECS.map((spec) => {
-      const raw = row[spec.key];
-      const { displayValue, isPreformatted } = formatFieldValue(raw, spec.type);
+      const raw = spec.key === 'cost_usd' ? cost.costUsd : row[spec.key];
+      const formatted = formatFieldValue(raw, spec.type);
+      const displayValue =
+        spec.key === 'cost_usd' && cost.estimated && raw != null
+          ? `${formatted.displayValue} (estimated)`
+          : formatted.displayValue;
+      const { isPreformatted } = formatted;
       return {
         key: spec.key,
         label: spec.label,
@@ -291,15 +592,31 @@ export async function startDashboardServer(options: DashboardServerOptions): Pro
     res.render('detail', {
       id: row.id,
       detailFields,
+      toolInspection: buildToolInspection(row, reader.getToolCalls(row.id)),
       timestamp: formatDateTime(row.timestamp),
+      traceHref: row.trace_id ? `/traces/${encodeURIComponent(row.trace_id)}` : null,
+      sessionHref: row.session_id ? `/${buildQueryString({ session: row.session_id })}` : null,
+      tenantHref: row.tenant_id ? `/${buildQueryString({ tenant: row.tenant_id })}` : null,
+      replayOfHref: row.replay_of ? `/entries/${encodeURIComponent(row.replay_of)}` : null,
+      replaysHref: reader.sumUsage({ replayOf: row.id }).calls ? `/${buildQueryString({ replayOf: row.id })}` : null,
     });
   });
 
-  let server: Server;
+  app.get('/traces/:traceId', (req, res) => {
+    const traceId = req.params.traceId;
+    const trace = buildTraceSummary(traceId, reader.listTrace(traceId), pricing);
+    if (!trace) {
+      res.status(404).render('not-found', { id: traceId, kind: 'trace' });
+      return;
+    }
+    res.render('trace', { trace });
+  });
+
+  let server: Server | https.Server;
   try {
-    server = await listenAsync(app, host, port);
+    server = await listenAsync(tls ? https.createServer(tls, app) : app, host, port);
   } catch (err) {
-    db.close();
+    reader.close?.();
     throw err;
   }
 
@@ -307,6 +624,7 @@ export async function startDashboardServer(options: DashboardServerOptions): Pro
   const close = async (): Promise<void> => {
     if (closed) return;
     closed = true;
+    live.close();
 
     await new Promise<void>((resolve, reject) => {
       server.close((maybeError?: Error) => {
@@ -316,7 +634,7 @@ export async function startDashboardServer(options: DashboardServerOptions): Pro
           return;
         }
         try {
-          db.close();
+          reader.close?.();
         } catch (dbError) {
           reject(dbError as Error);
           return;
@@ -330,7 +648,7 @@ export async function startDashboardServer(options: DashboardServerOptions): Pro
     if (!closed) {
       closed = true;
       try {
-        db.close();
+        reader.close?.();
       } catch {
         // ignore close errors after shutdown
       }
@@ -342,7 +660,7 @@ export async function startDashboardServer(options: DashboardServerOptions): Pro
   const actualPort = addressInfo?.port ?? port;
   const bindingHost = addressInfo?.address ?? host;
   const publicHost = normaliseHostForUrl(bindingHost);
-  const url = `http://${formatHostnameForUrl(publicHost)}:${actualPort}`;
+  const url = `${tls ? 'https' : 'http'}://${formatHostnameForUrl(publicHost)}:${actualPort}`;
 
   return {
     app,
@@ -350,12 +668,27 @@ export async function startDashboardServer(options: DashboardServerOptions): Pro
     host: bindingHost,
     port: actualPort,
     url,
-    dbPath: absoluteDbPath,
+    dbPath: target,
     close,
   };
 }
 
 
+function openReader(options: DashboardServerOptions): { reader: UsageReader; target: string } {
+  if (options.storage) {
+    if (!options.storage.createReader) {
+      throw new Error(`The "${options.storage.kind}" storage backend does not support queries.`);
+    }
+    return { reader: options.storage.createReader(), target: options.storage.target };
+  }
+
+  if (!options.dbPath) {
+    throw new Error('A path to the SQLite database must be provided.');
+  }
+
+  return { reader: openUsageReader(options.dbPath), target: path.resolve(options.dbPath) };
+}
+
 function normaliseHostForUrl(host: string): string {
   if (!host || host === '0.0.0.0' || host === '::') {
     return '127.0.0.1';
@@ -367,9 +700,9 @@ function formatHostnameForUrl(host: string): string {
   return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
 }
 
-async function listenAsync(app: Express, host: string, port: number): Promise<Server> {
-  return await new Promise<Server>((resolve, reject) => {
-    const server = app.listen(port, host, () => {
+async function listenAsync(target: Express | https.Server, host: string, port: number): Promise<Server | https.Server> {
+  return await new Promise<Server | https.Server>((resolve, reject) => {
+    const server: Server | https.Server = target.listen(port, host, () => {
       server.off('error', handleError);
       resolve(server);
     });
@@ -384,30 +717,6 @@ async function listenAsync(app: Express, host: string, port: number): Promise<Se
 }
 
 
-function truncate(text: string, length: number): string {
-  if (text.length <= length) return text;
-  return `${text.slice(0, length - 1)}\u2026`;
-}
-
-function safeParseJson(value: string | null): unknown {
-  if (value == null) return null;
-  try {
-    return JSON.parse(value);
-  } catch {
-    return value;
-  }
-}
-
-function formatDateTime(value: string | null): string {
-  if (!value) return '—';
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return value;
-  return new Intl.DateTimeFormat(undefined, {
-    dateStyle: 'medium',
-    timeStyle: 'medium',
-  }).format(date);
-}
-
 function formatFieldValue(value: unknown, type: ColumnType): { displayValue: string; isPreformatted: boolean } {
   if (value == null) return { displayValue: '—', isPreformatted: false };
 
@@ -432,6 +741,8 @@ function formatFieldValue(value: unknown, type: ColumnType): { displayValue: str
     }
     case 'duration':
       return { displayValue: `${value} ms`, isPreformatted: false };
+    case 'currency':
+      return { displayValue: formatCurrency(Number(value)), isPreformatted: false };
     case 'number':
       return { displayValue: String(value), isPreformatted: false };
     case 'text':
@@ -440,6 +751,10 @@ function formatFieldValue(value: unknown, type: ColumnType): { displayValue: str
   }
 }
 
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
 function resolveViewsDirectory(): string {
   const currentDir = path.dirname(fileURLToPath(import.meta.url));
   const candidate = path.resolve(currentDir, '../..', 'views');
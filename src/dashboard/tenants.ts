@@ -0,0 +1,91 @@
+import type { PricingRegistry } from '../pricing.js';
+import type { AnalyticsRow, UsageReader } from '../storage/types.js';
+import { toCsvField } from '../transfer.js';
+import { groupRows, summariseRows, type BreakdownEntry, type UsageTotals } from './analytics.js';
+import type { CallFilters } from './filters.js';
+import { resolveCost } from './format.js';
+
+/** One tenant's usage in the billing window, with a line per model. */
+export type TenantUsage = BreakdownEntry & {
+  estimatedCostCalls: number;      // calls priced from the pricing table rather than a stored cost
+  models: BreakdownEntry[];        // most expensive first
+};
+
+export type TenantReport = {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  tenants: TenantUsage[];          // most expensive first; calls without a tenant under `(none)`
+};
+
+export const TENANT_CSV_COLUMNS = [
+  'tenant', 'model', 'calls', 'errors', 'input_tokens', 'cached_input_tokens', 'output_tokens', 'reasoning_tokens', 'total_tokens', 'cost_usd',
+];
+
+/** The billing window: the given bounds, or the current UTC calendar month up to now. */
+export function resolveBillingRange(from?: Date | null, to?: Date | null, now = new Date()): { from: Date; to: Date } {
+  return {
+    from: from ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    to: to ?? now,
+  };
+}
+
+/**
+ * Totals per tenant and model for invoicing, pricing rows saved without a
+ * cost as the overview does. Days pruned by retention are billed from their
+ * rollups.
+ */
+export function loadTenantReport(reader: UsageReader, pricing: PricingRegistry, filters: CallFilters): TenantReport {
+  const range = resolveBillingRange(filters.from, filters.to);
+  const rows: (AnalyticsRow & { cost_estimated?: boolean })[] = [
+    ...reader.listAnalyticsRows({ ...filters, ...range }).map((row) => {
+      const { costUsd, estimated } = resolveCost(row, pricing);
+      return { ...row, cost_usd: costUsd, cost_estimated: estimated };
+    }),
+    ...reader.listRolledUpRows({ ...filters, ...range }),
+  ];
+
+  const tenants = [...groupRows(rows, 'tenant').entries()].map(([key, tenantRows]): TenantUsage => ({
+    key,
+    ...summariseRows(tenantRows),
+    estimatedCostCalls: tenantRows.filter((row) => row.cost_estimated).length,
+    models: [...groupRows(tenantRows, 'model').entries()]
+      .map(([model, modelRows]) => ({ key: model, ...summariseRows(modelRows) }))
+      .sort(byCost),
+  }));
+
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    totals: summariseRows(rows),
+    tenants: tenants.sort(byCost),
+  };
+}
+
+/** One CSV line per tenant and model, for spreadsheets and invoicing tools. */
+export function tenantReportCsv(report: TenantReport): string {
+  const lines = [TENANT_CSV_COLUMNS.join(',')];
+  for (const tenant of report.tenants) {
+    for (const model of tenant.models) {
+      lines.push(
+        [
+          tenant.key,
+          model.key,
+          model.calls,
+          model.errors,
+          model.inputTokens,
+          model.cachedInputTokens,
+          model.outputTokens,
+          model.reasoningTokens,
+          model.totalTokens,
+          model.costUsd.toFixed(6),
+        ].map(toCsvField).join(',')
+      );
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function byCost(a: BreakdownEntry, b: BreakdownEntry): number {
+  return b.costUsd - a.costUsd || b.totalTokens - a.totalTokens || a.key.localeCompare(b.key);
+}
@@ -0,0 +1,268 @@
+import type { LlmCallTableRow, ToolCallOutcome, ToolCallTableRow, UsageReader } from '../storage/types.js';
+import { resolveOverviewRange, summariseValues, type Distribution } from './analytics.js';
+import type { CallFilters } from './filters.js';
+import { safeParseJson } from './format.js';
+
+/** A row of `llm_tool_calls` with its arguments parsed. */
+export type ToolCall = {
+  callId: string;
+  position: number;
+  timestamp: string;
+  modelId: string | null;
+  toolCallId: string | null;
+  toolName: string;
+  providerExecuted: boolean;
+  input: unknown;                  // null once retention has stripped the call's content
+  inputBytes: number | null;
+  outcome: ToolCallOutcome | null; // null until a result is seen
+  errorText: string | null;
+  resultCallId: string | null;
+};
+
+/** How often one tool was called in the window and how those calls turned out. */
+export type ToolUsage = {
+  name: string;
+  calls: number;                   // tool calls the model made
+  callers: number;                 // model calls that made at least one of them
+  resolved: number;                // tool calls whose result was seen
+  errors: number;
+  failureRate: number | null;      // errors / resolved, null before any result
+  providerExecuted: number;
+  inputBytes: Distribution;
+  models: string[];
+  lastCalledAt: string;
+};
+
+export type ToolReport = {
+  from: string;
+  to: string;
+  modelCalls: number;              // calls in the window, with or without tools
+  modelCallsWithTools: number;
+  toolCalls: number;
+  resolved: number;
+  errors: number;
+  failureRate: number | null;
+  tools: ToolUsage[];              // most called first
+  recentFailures: ToolCall[];      // newest first
+};
+
+export type ToolParameter = {
+  name: string;                    // nested properties as `parent.child`, array items as `list[].child`
+  type: string;                    // e.g. 'string', 'number[]', 'string | null'
+  required: boolean;
+  description: string | null;
+  values: string[];                // allowed values of an enum
+};
+
+/** A tool offered to the model, as declared in the request. */
+export type DeclaredTool = {
+  name: string;
+  kind: string;                    // 'function' or 'provider-defined'
+  description: string | null;
+  parameters: ToolParameter[];
+  schema: string | null;           // input schema (or provider tool arguments), pretty-printed
+  calls: number;                   // times the model called it in this call
+};
+
+export type ToolArgument = {
+  name: string;
+  value: string;
+  isPreformatted: boolean;
+};
+
+export type InspectedToolCall = ToolCall & {
+  arguments: ToolArgument[];
+  declared: boolean;               // false when the model called a tool it was not offered
+};
+
+/** Declared tools and the calls the model made, for the entry page. */
+export type ToolInspection = {
+  toolChoice: string | null;
+  declared: DeclaredTool[];
+  calls: InspectedToolCall[];
+};
+
+const RECENT_FAILURES = 10;
+const MAX_SCHEMA_DEPTH = 3;
+
+export function toToolCall(row: ToolCallTableRow): ToolCall {
+  return {
+    callId: row.call_id,
+    position: row.position,
+    timestamp: row.timestamp,
+    modelId: row.model_id,
+    toolCallId: row.tool_call_id,
+    toolName: row.tool_name,
+    providerExecuted: Boolean(row.provider_executed),
+    input: safeParseJson(row.input_json),
+    inputBytes: row.input_bytes,
+    outcome: row.outcome,
+    errorText: row.error_text,
+    resultCallId: row.result_call_id,
+  };
+}
+
+/**
+ * Tool call frequency, argument sizes and failure rates over the overview's
+ * default range (the last 30 days) unless the filters set one. Failure rates
+ * only count tool calls whose result was seen.
+ */
+export function loadToolReport(reader: UsageReader, filters: CallFilters): ToolReport {
+  const range = resolveOverviewRange('day', filters.from, filters.to);
+  const scoped: CallFilters = { ...filters, from: range.from, to: range.to };
+  const rows = reader.listToolCalls(scoped);
+
+  const byTool = new Map<string, ToolCallTableRow[]>();
+  for (const row of rows) {
+    const group = byTool.get(row.tool_name);
+    if (group) {
+      group.push(row);
+    } else {
+      byTool.set(row.tool_name, [row]);
+    }
+  }
+
+  const tools = [...byTool.entries()].map(([name, calls]): ToolUsage => {
+    const { resolved, errors } = countOutcomes(calls);
+    return {
+      name,
+      calls: calls.length,
+      callers: new Set(calls.map((call) => call.call_id)).size,
+      resolved,
+      errors,
+      failureRate: resolved ? errors / resolved : null,
+      providerExecuted: calls.filter((call) => call.provider_executed).length,
+      inputBytes: summariseValues(
+        calls
+          .map((call) => call.input_bytes)
+          .filter((bytes): bytes is number => bytes != null)
+          .sort((a, b) => a - b)
+      ),
+      models: [...new Set(calls.map((call) => call.model_id).filter((model): model is string => model != null))].sort(),
+      lastCalledAt: calls[calls.length - 1].timestamp,
+    };
+  });
+
+  const { resolved, errors } = countOutcomes(rows);
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    modelCalls: reader.sumUsage(scoped).calls,
+    modelCallsWithTools: new Set(rows.map((row) => row.call_id)).size,
+    toolCalls: rows.length,
+    resolved,
+    errors,
+    failureRate: resolved ? errors / resolved : null,
+    tools: tools.sort((a, b) => b.calls - a.calls || a.name.localeCompare(b.name)),
+    recentFailures: rows
+      .filter((row) => row.outcome === 'error')
+      .slice(-RECENT_FAILURES)
+      .reverse()
+      .map(toToolCall),
+  };
+}
+
+/**
+ * Reads the tools declared with a call and the tool calls it made into a
+ * structured form. Returns null for calls that neither offered nor called a
+ * tool.
+ */
+export function buildToolInspection(row: LlmCallTableRow, toolCalls: ToolCallTableRow[]): ToolInspection | null {
+  const stored = safeParseJson(row.request_tools_json);
+  const tools = Array.isArray(stored) ? stored.filter((tool) => tool && typeof tool.name === 'string') : [];
+  if (!tools.length && !toolCalls.length) return null;
+
+  const counts = new Map<string, number>();
+  for (const call of toolCalls) counts.set(call.tool_name, (counts.get(call.tool_name) ?? 0) + 1);
+
+  const declared = tools.map((tool): DeclaredTool => {
+    const providerDefined = tool.type === 'provider-defined';
+    const schema = providerDefined ? tool.args : tool.inputSchema ?? tool.parameters;
+    return {
+      name: tool.name,
+      kind: typeof tool.type === 'string' ? tool.type : 'function',
+      description: typeof tool.description === 'string' ? tool.description : providerDefined && typeof tool.id === 'string' ? tool.id : null,
+      parameters: providerDefined ? [] : describeParameters(schema),
+      schema: schema == null ? null : JSON.stringify(schema, null, 2),
+      calls: counts.get(tool.name) ?? 0,
+    };
+  });
+  const names = new Set(declared.map((tool) => tool.name));
+
+  return {
+    toolChoice: describeToolChoice(safeParseJson(row.call_options_json)),
+    declared,
+    calls: toolCalls.map((call) => {
+      const parsed = toToolCall(call);
+      return {
+        ...parsed,
+        arguments: describeArguments(parsed.input),
+        // Provider tools may be called under a name other than the one they were declared with.
+        declared: names.has(call.tool_name) || call.provider_executed === 1 || !declared.length,
+      };
+    }),
+  };
+}
+
+function countOutcomes(rows: ToolCallTableRow[]): { resolved: number; errors: number } {
+  let resolved = 0;
+  let errors = 0;
+  for (const row of rows) {
+    if (row.outcome != null) resolved += 1;
+    if (row.outcome === 'error') errors += 1;
+  }
+  return { resolved, errors };
+}
+
+function describeParameters(schema: any, prefix = '', depth = 0): ToolParameter[] {
+  if (!schema || typeof schema !== 'object' || !schema.properties || typeof schema.properties !== 'object') return [];
+  const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+  const parameters: ToolParameter[] = [];
+  for (const [key, property] of Object.entries<any>(schema.properties)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    parameters.push({
+      name,
+      type: describeType(property),
+      required: required.has(key),
+      description: typeof property?.description === 'string' ? property.description : null,
+      values: Array.isArray(property?.enum) ? property.enum.map(String) : [],
+    });
+    if (depth + 1 >= MAX_SCHEMA_DEPTH) continue;
+    if (property?.type === 'object') parameters.push(...describeParameters(property, name, depth + 1));
+    if (property?.type === 'array') parameters.push(...describeParameters(property.items, `${name}[]`, depth + 1));
+  }
+  return parameters;
+}
+
+function describeType(schema: any): string {
+  if (!schema || typeof schema !== 'object') return 'any';
+  if (Array.isArray(schema.type)) return schema.type.join(' | ');
+  if (schema.type === 'array') return `${describeType(schema.items)}[]`;
+  if (typeof schema.type === 'string') return schema.type;
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants)) return variants.map(describeType).join(' | ');
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return 'enum';
+  return 'any';
+}
+
+function describeToolChoice(callOptions: unknown): string | null {
+  const choice = (callOptions as { toolChoice?: { type?: unknown; toolName?: unknown } } | null)?.toolChoice;
+  if (!choice || typeof choice.type !== 'string') return null;
+  return choice.type === 'tool' && typeof choice.toolName === 'string' ? `tool: ${choice.toolName}` : choice.type;
+}
+
+function describeArguments(input: unknown): ToolArgument[] {
+  if (input == null) return [];
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    // Arguments that are not an object, e.g. the raw text of an interrupted stream.
+    return [describeArgument('(input)', input)];
+  }
+  return Object.entries(input).map(([name, value]) => describeArgument(name, value));
+}
+
+function describeArgument(name: string, value: unknown): ToolArgument {
+  if (typeof value === 'string') return { name, value, isPreformatted: value.includes('\n') };
+  if (value !== null && typeof value === 'object') return { name, value: JSON.stringify(value, null, 2), isPreformatted: true };
+  return { name, value: String(value), isPreformatted: false };
+}
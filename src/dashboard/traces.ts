@@ -0,0 +1,131 @@
+import type { PricingRegistry } from '../pricing.js';
+import type { LlmCallTableRow } from '../storage/types.js';
+import { isErrorRow } from './analytics.js';
+import { resolveCost } from './format.js';
+
+export type TraceSpan = {
+  id: string;
+  spanId: string | null;
+  parentSpanId: string | null;
+  depth: number;                   // nesting below other calls of the same trace
+  timestamp: string;
+  modelId: string | null;
+  finishReason: string | null;
+  isError: boolean;
+  startOffsetMs: number;           // relative to the start of the trace
+  durationMs: number;
+  totalTokens: number | null;
+  costUsd: number | null;
+  costEstimated: boolean;
+};
+
+export type TraceTotals = {
+  calls: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;               // summed over calls
+};
+
+export type TraceSummary = {
+  traceId: string;
+  sessionIds: string[];
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;              // wall clock, first call start to last call end
+  totals: TraceTotals;
+  spans: TraceSpan[];              // by start time
+};
+
+/**
+ * Lays the calls of one trace out on a timeline. Rows are stamped when a
+ * call completes, so each call is taken to start `latency_ms` earlier.
+ */
+export function buildTraceSummary(traceId: string, rows: LlmCallTableRow[], pricing: PricingRegistry): TraceSummary | null {
+  if (!rows.length) return null;
+
+  const timed = rows.map((row) => {
+    const end = Date.parse(row.timestamp);
+    const durationMs = Math.max(0, row.latency_ms ?? 0);
+    return { row, start: end - durationMs, end, durationMs };
+  });
+  timed.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const traceStart = Math.min(...timed.map((entry) => entry.start));
+  const traceEnd = Math.max(...timed.map((entry) => entry.end));
+  const depths = spanDepths(rows);
+
+  const totals: TraceTotals = {
+    calls: rows.length,
+    errors: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    latencyMs: 0,
+  };
+  const sessionIds = new Set<string>();
+
+  const spans = timed.map(({ row, start, durationMs }): TraceSpan => {
+    const { costUsd, estimated } = resolveCost(row, pricing);
+    const isError = isErrorRow(row);
+
+    if (isError) totals.errors += 1;
+    totals.inputTokens += row.input_tokens ?? 0;
+    totals.outputTokens += row.output_tokens ?? 0;
+    totals.totalTokens += row.total_tokens ?? 0;
+    totals.costUsd += costUsd ?? 0;
+    totals.latencyMs += row.latency_ms ?? 0;
+    if (row.session_id) sessionIds.add(row.session_id);
+
+    return {
+      id: row.id,
+      spanId: row.span_id ?? null,
+      parentSpanId: row.parent_span_id ?? null,
+      depth: depths.get(row.id) ?? 0,
+      timestamp: row.timestamp,
+      modelId: row.model_id ?? null,
+      finishReason: row.finish_reason ?? null,
+      isError,
+      startOffsetMs: start - traceStart,
+      durationMs,
+      totalTokens: row.total_tokens ?? null,
+      costUsd,
+      costEstimated: estimated,
+    };
+  });
+
+  return {
+    traceId,
+    sessionIds: [...sessionIds].sort(),
+    startedAt: new Date(traceStart).toISOString(),
+    endedAt: new Date(traceEnd).toISOString(),
+    durationMs: traceEnd - traceStart,
+    totals,
+    spans,
+  };
+}
+
+/** Depth of each call below its ancestors among the same rows; outside parents count as roots. */
+function spanDepths(rows: LlmCallTableRow[]): Map<string, number> {
+  const bySpan = new Map<string, LlmCallTableRow>();
+  for (const row of rows) {
+    if (row.span_id) bySpan.set(row.span_id, row);
+  }
+
+  const depths = new Map<string, number>();
+  for (const row of rows) {
+    let depth = 0;
+    const seen = new Set<string>();
+    let parent = row.parent_span_id ? bySpan.get(row.parent_span_id) : undefined;
+    while (parent && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      depth += 1;
+      parent = parent.parent_span_id ? bySpan.get(parent.parent_span_id) : undefined;
+    }
+    depths.set(row.id, depth);
+  }
+  return depths;
+}
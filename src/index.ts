@@ -1,11 +1,200 @@
 import { Command, InvalidOptionArgumentError } from 'commander';
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
 
+import { isGroupDimension } from './dashboard/analytics.js';
+import { toApiCallSummary } from './dashboard/api.js';
+import { hashPassword, type DashboardAuth } from './dashboard/auth.js';
 import { startDashboardServer } from './dashboard/server.js';
+import { parseCallFilters, type CallFilters } from './dashboard/filters.js';
+import { assertSchemaCurrent, checkSchema, migrateDatabase, pendingMigrations } from './migrations.js';
+import { CALL_TYPES, isCallType } from './model-calls.js';
+import { pruneDatabase, STRIPPABLE_FIELDS, type StrippableField, type VacuumMode } from './retention.js';
+import { loadModelModule, replayCall } from './replay.js';
+import { createPricingRegistry } from './pricing.js';
+import { openUsageStore } from './query.js';
+import { buildUsageReport, formatCallLine, formatUsageReport, parseTimeWindow, tailCalls } from './report.js';
+import { openUsageReader } from './storage/open.js';
+import type { CallListRow } from './storage/types.js';
+import { EXPORT_FORMATS, exportCalls, importCalls, isExportFormat } from './transfer.js';
 
 export { createUsageLoggerMiddleware } from './usage-logger.js';
+export type { Attribution, AttributionContext, AttributionResolver } from './attribution.js';
 export { startDashboardServer } from './dashboard/server.js';
 export type { DashboardServerHandle, DashboardServerOptions } from './dashboard/server.js';
-export type { LoggerOptions, LLMCallRow, SaveFn, TokenUsageNormalized } from './types.js';
+export { InsecureBindingError, createAuthMiddleware, hashPassword, isLoopbackHost, verifyPassword } from './dashboard/auth.js';
+export type { BasicAuth, BearerAuth, DashboardAuth } from './dashboard/auth.js';
+export type {
+  ApiAlertListResponse,
+  ApiBreakdownResponse,
+  ApiCallDetail,
+  ApiCallListResponse,
+  ApiCallResponse,
+  ApiCallSummary,
+  ApiCompareResponse,
+  ApiErrorResponse,
+  ApiFacetsResponse,
+  ApiOverviewResponse,
+  ApiPageInfo,
+  ApiTokenUsage,
+  ApiTenantReportResponse,
+  ApiToolReportResponse,
+  ApiTraceResponse,
+} from './dashboard/api.js';
+export { compareCalls, compareGroups, diffLines, parseGroupSpecs } from './dashboard/compare.js';
+export type {
+  CallComparison,
+  ComparedCall,
+  ComparedGroup,
+  DiffLine,
+  Distribution,
+  DistributionMetric,
+  GroupComparison,
+  GroupSpec,
+} from './dashboard/compare.js';
+export { createLiveStream } from './dashboard/live.js';
+export type { ApiLiveEvent, LiveStream, LiveStreamOptions } from './dashboard/live.js';
+export type { TraceSpan, TraceSummary, TraceTotals } from './dashboard/traces.js';
+export { UNATTRIBUTED_KEY, USAGE_METRICS } from './dashboard/analytics.js';
+export type {
+  AttributeDimension,
+  BreakdownEntry,
+  GroupDimension,
+  GroupedTokenSeries,
+  LatencyPercentiles,
+  TimeBucket,
+  TimeSeriesPoint,
+  UsageBreakdown,
+  UsageMetric,
+  UsageOverview,
+  UsageTotals,
+} from './dashboard/analytics.js';
+export { loadTenantReport, tenantReportCsv } from './dashboard/tenants.js';
+export type { TenantReport, TenantUsage } from './dashboard/tenants.js';
+export { buildToolInspection, loadToolReport, toToolCall } from './dashboard/tools.js';
+export type { DeclaredTool, ToolCall, ToolInspection, ToolParameter, ToolReport, ToolUsage } from './dashboard/tools.js';
+export { extractToolCalls, extractToolResults } from './storage/tool-calls.js';
+export type { ToolCallRecord, ToolResultRecord } from './storage/tool-calls.js';
+export { createSqliteStorage } from './storage/sqlite.js';
+export { createNdjsonStorage, openNdjsonReader } from './storage/ndjson.js';
+export { createMemoryStorage } from './storage/memory.js';
+export { createSqliteReader, openSqliteReader } from './storage/sqlite-reader.js';
+export type { SqliteStorageOptions } from './storage/sqlite.js';
+export type { NdjsonStorageOptions } from './storage/ndjson.js';
+export type { MemoryStorage } from './storage/memory.js';
+export type {
+  AlertTableRow,
+  AnalyticsRow,
+  CallFacets,
+  CallListRow,
+  CallPage,
+  CallPageRequest,
+  LlmCallTableRow,
+  MetricsGroup,
+  NewCalls,
+  StorageAdapter,
+  ToolCallOutcome,
+  ToolCallTableRow,
+  UsageReader,
+  UsageSum,
+} from './storage/types.js';
+export type { AttributeFilter, CallFilters, CallStatus, PageCursor } from './dashboard/filters.js';
+export type { LoggerOptions, LLMCallRow, SaveFn, StorageKind, TokenUsageNormalized } from './types.js';
+export { CALL_TYPES } from './model-calls.js';
+export type { CallType } from './model-calls.js';
+export { createPricingRegistry, estimateCost, loadPricingFile, DEFAULT_MODEL_PRICES } from './pricing.js';
+export { BudgetExceededError, createBudgetEnforcer, startOfPeriod } from './budgets.js';
+export { createAlertMonitor } from './alerts.js';
+export { createOtelExporter } from './otel.js';
+export { DEFAULT_STRIP_FIELDS, STRIPPABLE_FIELDS, pruneDatabase, scheduleRetention } from './retention.js';
+export { BODY_COLUMNS, EXPORT_FORMATS, exportCalls, importCalls } from './transfer.js';
+export { ReplayError, buildReplayCall, loadModelModule, replayCall } from './replay.js';
+export { openUsageReader } from './storage/open.js';
+export { openUsageStore } from './query.js';
+export { LATENCY_BUCKETS_SECONDS, groupMetricsRows, renderPrometheusMetrics } from './dashboard/metrics.js';
+export { createWriteQueue } from './write-queue.js';
+export {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  getTraceContext,
+  parseTraceparent,
+  withTraceContext,
+} from './trace-context.js';
+export { createStreamCapture, normaliseContent } from './stream-capture.js';
+export { CAPTURE_LEVELS, applyCaptureLevel, createSampler, isCaptureLevel } from './sampling.js';
+export { BUILT_IN_DETECTORS, DEFAULT_DENIED_HEADERS, REDACTION_FIELDS, createRedactor } from './redaction.js';
+export {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  SchemaVersionError,
+  checkSchema,
+  getSchemaVersion,
+  migrateDatabase,
+} from './migrations.js';
+export type { Migration, MigrationResult, SchemaCheck, SchemaStatus } from './migrations.js';
+export type { ModelPrice, PricingOptions, PricingRegistry, PricingTable } from './pricing.js';
+export type { CallTrace, TraceContext, TraceContextInput, Traceparent } from './trace-context.js';
+export type { PartTiming, StreamCapture } from './stream-capture.js';
+export type { CaptureLevel, Sampler, SamplingOptions, SamplingRule } from './sampling.js';
+export type {
+  BudgetAction,
+  BudgetCall,
+  BudgetDimension,
+  BudgetEnforcer,
+  BudgetExceededEvent,
+  BudgetOptions,
+  BudgetPeriod,
+  BudgetRule,
+} from './budgets.js';
+export type {
+  Alert,
+  AlertDelivery,
+  AlertKind,
+  AlertMonitor,
+  AlertOptions,
+  AlertRule,
+  AlertWebhook,
+  ErrorRateAlertRule,
+  LatencyAlertRule,
+  StoredAlert,
+  TokenSpikeAlertRule,
+  UnknownModelAlertRule,
+} from './alerts.js';
+export type { ExportFormat, ExportOptions, ImportResult } from './transfer.js';
+export type { GroupValue, GroupedUsageQuery, UsageQuery, UsageRecord, UsageStore, UsageStoreOptions } from './query.js';
+export { buildUsageReport, formatCallLine, formatUsageReport, parseTimeWindow, tailCalls } from './report.js';
+export type { CallTail, CallTailOptions, UsageReport } from './report.js';
+export type { ReplayCall, ReplayModel, ReplayOptions, ReplayResult } from './replay.js';
+export type {
+  PruneOptions,
+  PruneResult,
+  RetentionOptions,
+  RetentionSchedule,
+  StrippableField,
+  VacuumMode,
+} from './retention.js';
+export type {
+  OtelAttributes,
+  OtelExporter,
+  OtelExporterOptions,
+  OtelHistogram,
+  OtelMeter,
+  OtelSpan,
+  OtelTracer,
+} from './otel.js';
+export type { OverflowPolicy, WriteQueue, WriteQueueOptions } from './write-queue.js';
+export type {
+  BuiltInDetector,
+  HeaderRedactionOptions,
+  RedactionField,
+  RedactionHit,
+  RedactionMode,
+  RedactionOptions,
+  RedactionRule,
+  Redactor,
+} from './redaction.js';
 
 export async function runCli(argv: string[] = process.argv): Promise<void> {
   const program = new Command();
@@ -16,17 +205,65 @@ export async function runCli(argv: string[] = process.argv): Promise<void> {
 
   program
     .command('dashboard')
-    .argument('<dbPath>', 'Path to the SQLite database generated by the usage middleware')
+    .argument('<dbPath>', 'Path to the SQLite database (or .ndjson file) generated by the usage middleware')
     .option('-p, --port <port>', 'Port to bind the dashboard server', '4545')
     .option('--host <host>', 'Host to bind the dashboard server', '127.0.0.1')
-    .action(async (dbPath: string, options: { port?: string; host?: string }) => {
+    .option('--pricing <file>', 'JSON file with model prices used to estimate missing costs')
+    .option('--auth-token <token>', 'Require this bearer token (or set AI_SDK_USAGE_DASHBOARD_TOKEN)')
+    .option('--basic-auth <user:hash>', 'Require HTTP basic auth; the hash comes from "hash-password" (repeatable)', collect, [])
+    .option('--allow-insecure-remote', 'Serve a non-loopback host without authentication')
+    .option('--tls-cert <file>', 'Serve HTTPS with this PEM certificate')
+    .option('--tls-key <file>', 'Private key for --tls-cert')
+    .option('--live-poll-ms <ms>', 'How often live tailing checks the database for new calls', '1000')
+    .action(async (dbPath: string, options: {
+      port?: string;
+      host?: string;
+      pricing?: string;
+      authToken?: string;
+      basicAuth: string[];
+      allowInsecureRemote?: boolean;
+      tlsCert?: string;
+      tlsKey?: string;
+      livePollMs?: string;
+    }) => {
       const parsedPort = options.port ? Number.parseInt(options.port, 10) : 4545;
       if (!Number.isInteger(parsedPort) || parsedPort <= 0 || parsedPort > 65535) {
         throw new InvalidOptionArgumentError('Port must be an integer between 1 and 65535.');
       }
+      if (Boolean(options.tlsCert) !== Boolean(options.tlsKey)) {
+        throw new InvalidOptionArgumentError('--tls-cert and --tls-key must be used together.');
+      }
+
+      const token = options.authToken ?? process.env.AI_SDK_USAGE_DASHBOARD_TOKEN;
+      if (token && options.basicAuth.length) {
+        throw new InvalidOptionArgumentError('Use either a bearer token or basic auth, not both.');
+      }
+      let auth: DashboardAuth | undefined;
+      if (token) {
+        auth = { type: 'bearer', token };
+      } else if (options.basicAuth.length) {
+        const users: Record<string, string> = {};
+        for (const entry of options.basicAuth) {
+          const separator = entry.indexOf(':');
+          if (separator <= 0) {
+            throw new InvalidOptionArgumentError('--basic-auth expects "user:hash".');
+          }
+          users[entry.slice(0, separator)] = entry.slice(separator + 1);
+        }
+        auth = { type: 'basic', users };
+      }
 
       const host = options.host ?? '127.0.0.1';
-      const handle = await startDashboardServer({ dbPath, port: parsedPort, host });
+      const handle = await startDashboardServer({
+        dbPath,
+        port: parsedPort,
+        host,
+        pricingFile: options.pricing,
+        auth,
+        livePollMs: parsePositiveNumber(options.livePollMs, '--live-poll-ms'),
+        allowInsecureRemote: options.allowInsecureRemote,
+        tls: options.tlsCert && options.tlsKey ? { certFile: options.tlsCert, keyFile: options.tlsKey } : undefined,
+      });
 
       const shutdown = async () => {
         try {
@@ -50,5 +287,373 @@ export async function runCli(argv: string[] = process.argv): Promise<void> {
       console.log('Press Ctrl+C to stop the server.');
     });
 
+  program
+    .command('migrate')
+    .description('Upgrade a usage database to the schema version of this release')
+    .argument('<dbPath>', 'Path to the SQLite database generated by the usage middleware')
+    .option('--dry-run', 'List pending migrations without applying them')
+    .action((dbPath: string, options: { dryRun?: boolean }) => {
+      const absoluteDbPath = path.resolve(dbPath);
+      if (!fs.existsSync(absoluteDbPath)) {
+        throw new Error(`No SQLite database found at "${absoluteDbPath}"`);
+      }
+
+      const db = new Database(absoluteDbPath, { fileMustExist: true });
+      try {
+        const { status, version, expected } = checkSchema(db);
+        if (status === 'newer') {
+          throw new Error(
+            `Database schema version ${version} is newer than this release supports (${expected}). Upgrade ai-sdk-usage-insights instead.`
+          );
+        }
+
+        const pending = pendingMigrations(db);
+        if (!pending.length) {
+          // eslint-disable-next-line no-console
+          console.log(`${absoluteDbPath} is already at schema version ${version}.`);
+          return;
+        }
+
+        if (options.dryRun) {
+          // eslint-disable-next-line no-console
+          console.log(`${absoluteDbPath} is at schema version ${version}; pending migrations:`);
+          for (const migration of pending) {
+            // eslint-disable-next-line no-console
+            console.log(`  ${migration.version}: ${migration.description}`);
+          }
+          return;
+        }
+
+        const result = migrateDatabase(db);
+        for (const migration of result.applied) {
+          // eslint-disable-next-line no-console
+          console.log(`Applied ${migration.version}: ${migration.description}`);
+        }
+        // eslint-disable-next-line no-console
+        console.log(`${absoluteDbPath} migrated from schema version ${result.from} to ${result.to}.`);
+      } finally {
+        db.close();
+      }
+    });
+
+  program
+    .command('hash-password')
+    .description('Hash a password for --basic-auth; reads it from stdin when not given')
+    .argument('[password]', 'Password to hash')
+    .action(async (password?: string) => {
+      let input = password;
+      if (input == null) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+        input = Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '');
+      }
+      if (!input) throw new InvalidOptionArgumentError('The password must not be empty.');
+      // eslint-disable-next-line no-console
+      console.log(hashPassword(input));
+    });
+
+  program
+    .command('export')
+    .description('Write logged calls to CSV, NDJSON or columnar JSON')
+    .argument('<dbPath>', 'Path to the SQLite database (or .ndjson file) generated by the usage middleware')
+    .option('-f, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`, 'ndjson')
+    .option('-o, --out <file>', 'File to write instead of stdout')
+    .option('--from <date>', 'Only calls on or after this date (YYYY-MM-DD or ISO timestamp)')
+    .option('--to <date>', 'Only calls on or before this date')
+    .option('--model <model>', 'Only calls to this model')
+    .option('--tag <tag>', 'Only calls with this tag')
+    .option('--no-bodies', 'Leave out prompt and response text')
+    .action(async (dbPath: string, options: { format: string; out?: string; from?: string; to?: string; model?: string; tag?: string; bodies: boolean }) => {
+      if (!isExportFormat(options.format)) {
+        throw new InvalidOptionArgumentError(`Format must be one of ${EXPORT_FORMATS.join(', ')}.`);
+      }
+      const filters = parseCallFilters({ from: options.from, to: options.to, model: options.model, tag: options.tag });
+      const reader = openUsageReader(dbPath);
+      const output = options.out ? fs.createWriteStream(path.resolve(options.out)) : process.stdout;
+      try {
+        const count = await exportCalls(reader, output, { format: options.format, filters, includeBodies: options.bodies });
+        if (output !== process.stdout) {
+          output.end();
+          await new Promise<void>((resolve, reject) => {
+            output.once('finish', resolve);
+            output.once('error', reject);
+          });
+          // eslint-disable-next-line no-console
+          console.log(`Exported ${count} ${count === 1 ? 'call' : 'calls'} to ${path.resolve(options.out!)}.`);
+        }
+      } finally {
+        reader.close?.();
+      }
+    });
+
+  program
+    .command('import')
+    .description('Merge NDJSON exports or other usage databases into a SQLite database, skipping ids it already has')
+    .argument('<dbPath>', 'SQLite database to import into; created if missing')
+    .argument('<sources...>', 'NDJSON files (.ndjson, .jsonl) or SQLite databases to import')
+    .action(async (dbPath: string, sources: string[]) => {
+      for (const result of await importCalls(dbPath, sources)) {
+        // eslint-disable-next-line no-console
+        const rolledUp = result.rolledUpCalls ? `, ${result.rolledUpCalls} rolled-up calls added` : '';
+        console.log(`${result.source}: ${result.imported} imported, ${result.skipped} already present (${result.read} read)${rolledUp}.`);
+      }
+    });
+
+  program
+    .command('replay')
+    .description('Send a logged call again through a model and log the result, linked to the original')
+    .argument('<dbPath>', 'Path to the SQLite database (or .ndjson file) generated by the usage middleware')
+    .argument('<id>', 'Id of the call to replay')
+    .requiredOption('-m, --model <module>', 'Module exporting the model to call, or a function receiving the original model id')
+    .option('--stream', 'Replay through doStream instead of doGenerate')
+    .option('--pricing <file>', 'JSON file with model prices used to estimate the cost of the replay')
+    .option('--json', 'Print the original and replayed rows as JSON')
+    .action(async (dbPath: string, id: string, options: { model: string; stream?: boolean; pricing?: string; json?: boolean }) => {
+      const original = openUsageReader(dbPath);
+      let modelId: string | null;
+      try {
+        modelId = original.getCall(id)?.model_id ?? null;
+      } finally {
+        original.close?.();
+      }
+
+      const result = await replayCall(dbPath, id, {
+        model: await loadModelModule(options.model, modelId),
+        stream: options.stream,
+        logger: { pricingFile: options.pricing },
+      });
+
+      if (options.json) {
+        // eslint-disable-next-line no-console
+        console.log(JSON.stringify({ original: result.original, replay: result.replay }, null, 2));
+        return;
+      }
+      const { replay } = result;
+      if (!replay) {
+        // eslint-disable-next-line no-console
+        console.log(`Replayed ${id}, but no row was logged for it.`);
+        return;
+      }
+      // eslint-disable-next-line no-console
+      console.log(`Replayed ${id} as ${replay.id} (${replay.model_id ?? 'unknown model'}, ${replay.latency_ms ?? '?'} ms).`);
+      // eslint-disable-next-line no-console
+      console.log(
+        `Tokens: ${replay.input_tokens ?? '?'} in / ${replay.output_tokens ?? '?'} out ` +
+          `(original ${result.original.input_tokens ?? '?'} / ${result.original.output_tokens ?? '?'}); finish reason ${replay.finish_reason ?? '?'}.`
+      );
+      // eslint-disable-next-line no-console
+      console.log(`Compare in the dashboard at /compare?ids=${encodeURIComponent(id)},${encodeURIComponent(replay.id)}`);
+    });
+
+  program
+    .command('report')
+    .description('Print calls, tokens, cost, errors and latency percentiles grouped by model, tag or time')
+    .argument('<dbPath>', 'Path to the SQLite database (or .ndjson file) generated by the usage middleware')
+    .option('-b, --by <dimension>', 'Group by model, type, tag, user, tenant, feature, attr:<key>, hour, day or week', 'model')
+    .option('--since <when>', 'Only calls at or after this time: 24h, 7d, YYYY-MM-DD or an ISO timestamp')
+    .option('--until <when>', 'Only calls at or before this time')
+    .option('--model <model>', 'Only calls to this model')
+    .option('--type <type>', 'Only text, embedding, image or speech calls')
+    .option('--tag <tag>', 'Only calls with this tag')
+    .option('--status <status>', 'Only "error" or "success" calls')
+    .option('--user <id>', 'Only calls made for this user id')
+    .option('--tenant <id>', 'Only calls billed to this tenant')
+    .option('--feature <name>', 'Only calls made by this feature')
+    .option('--attr <key:value>', 'Only calls with this attribute, or with the key at all')
+    .option('--pricing <file>', 'JSON file with model prices used to estimate missing costs')
+    .option('--json', 'Print the report as JSON')
+    .action((dbPath: string, options: CliFilterOptions & { by: string; since?: string; until?: string; pricing?: string; json?: boolean }) => {
+      const by = options.by;
+      if (!isGroupDimension(by)) {
+        throw new InvalidOptionArgumentError('--by must be one of model, type, tag, user, tenant, feature, attr:<key>, hour, day or week.');
+      }
+      const filters = parseCliFilters(options);
+      if (options.since) filters.from = parseWindowOption(options.since, '--since');
+      if (options.until) filters.to = parseWindowOption(options.until, '--until', true);
+
+      const store = openUsageStore(dbPath, { pricingFile: options.pricing });
+      try {
+        const report = buildUsageReport(store.query().where(filters), by);
+        // eslint-disable-next-line no-console
+        console.log(options.json ? JSON.stringify(report, null, 2) : formatUsageReport(report));
+      } finally {
+        store.close();
+      }
+    });
+
+  program
+    .command('tail')
+    .description('Print calls as they are saved, until interrupted')
+    .argument('<dbPath>', 'Path to the SQLite database (or .ndjson file) generated by the usage middleware')
+    .option('-n, --lines <count>', 'Print the last <count> matching calls first', '0')
+    .option('--interval <ms>', 'How often to check for new calls', '1000')
+    .option('--model <model>', 'Only calls to this model')
+    .option('--type <type>', 'Only text, embedding, image or speech calls')
+    .option('--tag <tag>', 'Only calls with this tag')
+    .option('--status <status>', 'Only "error" or "success" calls')
+    .option('--user <id>', 'Only calls made for this user id')
+    .option('--tenant <id>', 'Only calls billed to this tenant')
+    .option('--feature <name>', 'Only calls made by this feature')
+    .option('--attr <key:value>', 'Only calls with this attribute, or with the key at all')
+    .option('--pricing <file>', 'JSON file with model prices used to estimate missing costs')
+    .option('--json', 'Print one JSON call summary per line')
+    .action((dbPath: string, options: CliFilterOptions & { lines: string; interval: string; pricing?: string; json?: boolean }) => {
+      const lines = Number(options.lines);
+      if (!Number.isInteger(lines) || lines < 0) {
+        throw new InvalidOptionArgumentError('--lines must be a whole number.');
+      }
+      const filters = parseCliFilters(options);
+      const pricing = createPricingRegistry({ pricingFile: options.pricing });
+      const reader = openUsageReader(dbPath);
+      const print = (rows: CallListRow[]) => {
+        for (const row of rows) {
+          const call = toApiCallSummary(row, pricing);
+          // eslint-disable-next-line no-console
+          console.log(options.json ? JSON.stringify(call) : formatCallLine(call));
+        }
+      };
+
+      const recent = lines ? reader.listCalls(filters, { pageSize: lines }).rows.reverse() : [];
+      print(recent);
+      const tail = tailCalls(reader, {
+        filters,
+        intervalMs: parsePositiveNumber(options.interval, '--interval'),
+        onCalls: print,
+        onError: (error) => {
+          reader.close?.();
+          // eslint-disable-next-line no-console
+          console.error(error instanceof Error ? error.message : error);
+          process.exit(1);
+        },
+      });
+
+      const shutdown = () => {
+        tail.stop();
+        reader.close?.();
+        process.exit(0);
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    });
+
+  program
+    .command('prune')
+    .description('Delete or strip old rows, rolling deleted rows up into daily totals')
+    .argument('<dbPath>', 'Path to the SQLite database generated by the usage middleware')
+    .option('--older-than <days>', 'Delete rows older than this many days')
+    .option('--strip-after <days>', 'Clear prompt, response and header fields of rows older than this many days')
+    .option('--strip-fields <fields>', `Comma-separated fields to clear (${STRIPPABLE_FIELDS.join(', ')})`)
+    .option('--no-rollup', 'Do not add deleted rows to the llm_daily_usage table')
+    .option('--vacuum <mode>', 'Reclaim space afterwards: incremental, full or none', 'incremental')
+    .option('--batch-size <rows>', 'Rows per transaction', '1000')
+    .option('--dry-run', 'Count matching rows without changing anything')
+    .action(async (dbPath: string, options: {
+      olderThan?: string;
+      stripAfter?: string;
+      stripFields?: string;
+      rollup: boolean;
+      vacuum: string;
+      batchSize: string;
+      dryRun?: boolean;
+    }) => {
+      const deleteAfterDays = parsePositiveNumber(options.olderThan, '--older-than');
+      const stripAfterDays = parsePositiveNumber(options.stripAfter, '--strip-after');
+      if (deleteAfterDays == null && stripAfterDays == null) {
+        throw new InvalidOptionArgumentError('Pass --older-than, --strip-after or both.');
+      }
+      if (!['incremental', 'full', 'none'].includes(options.vacuum)) {
+        throw new InvalidOptionArgumentError('--vacuum must be incremental, full or none.');
+      }
+      const stripFields = options.stripFields
+        ?.split(',')
+        .map((field) => field.trim())
+        .filter(Boolean) as StrippableField[] | undefined;
+
+      const absoluteDbPath = path.resolve(dbPath);
+      if (!fs.existsSync(absoluteDbPath)) {
+        throw new Error(`No SQLite database found at "${absoluteDbPath}"`);
+      }
+      const db = new Database(absoluteDbPath, { fileMustExist: true });
+      try {
+        assertSchemaCurrent(db, absoluteDbPath);
+        const result = await pruneDatabase(db, {
+          deleteAfterDays,
+          stripAfterDays,
+          stripFields,
+          rollup: options.rollup,
+          vacuum: options.vacuum === 'none' ? false : (options.vacuum as VacuumMode),
+          batchSize: parsePositiveNumber(options.batchSize, '--batch-size'),
+          dryRun: options.dryRun,
+        });
+
+        const rolledUp = result.rolledUp ? `, ${result.rolledUp} rolled up into llm_daily_usage` : '';
+        // eslint-disable-next-line no-console
+        console.log(
+          `${options.dryRun ? 'Dry run: would delete' : 'Deleted'} ${result.deleted} rows${rolledUp}; ` +
+            `${options.dryRun ? 'would strip' : 'stripped'} ${result.stripped} rows in ${absoluteDbPath}.`
+        );
+        if (result.vacuum === 'skipped') {
+          // eslint-disable-next-line no-console
+          console.log('Incremental vacuum is not enabled for this database; run with --vacuum full once to enable it.');
+        } else if (result.vacuum) {
+          // eslint-disable-next-line no-console
+          console.log(`Vacuum (${result.vacuum}) freed ${result.freedPages} pages.`);
+        }
+      } finally {
+        db.close();
+      }
+    });
+
   await program.parseAsync(argv, { from: 'node' });
 }
+
+type CliFilterOptions = {
+  model?: string;
+  type?: string;
+  tag?: string;
+  status?: string;
+  user?: string;
+  tenant?: string;
+  feature?: string;
+  attr?: string;
+};
+
+function parseCliFilters(options: CliFilterOptions): CallFilters {
+  if (options.status != null && options.status !== 'error' && options.status !== 'success') {
+    throw new InvalidOptionArgumentError('--status must be "error" or "success".');
+  }
+  if (options.type != null && !isCallType(options.type)) {
+    throw new InvalidOptionArgumentError(`--type must be one of ${CALL_TYPES.join(', ')}.`);
+  }
+  return parseCallFilters({
+    model: options.model,
+    type: options.type,
+    tag: options.tag,
+    status: options.status,
+    user: options.user,
+    tenant: options.tenant,
+    feature: options.feature,
+    attr: options.attr,
+  });
+}
+
+function parseWindowOption(value: string, flag: string, endOfDay = false): Date {
+  const date = parseTimeWindow(value, { endOfDay });
+  if (!date) {
+    throw new InvalidOptionArgumentError(`${flag} must be a duration such as 24h or 7d, a YYYY-MM-DD date or an ISO timestamp.`);
+  }
+  return date;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parsePositiveNumber(value: string | undefined, flag: string): number | undefined {
+  if (value == null) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new InvalidOptionArgumentError(`${flag} must be a positive number.`);
+  }
+  return parsed;
+}
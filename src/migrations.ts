@@ -0,0 +1,457 @@
+import type Database from 'better-sqlite3';
+import { createToolCallWriter, type ToolCallSourceRow } from './storage/tool-calls.js';
+
+export type Migration = {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+};
+
+export type SchemaStatus = 'current' | 'outdated' | 'newer';
+
+export type SchemaCheck = {
+  status: SchemaStatus;
+  version: number;                 // 0 for databases that predate schema tracking
+  expected: number;
+};
+
+export type MigrationResult = {
+  from: number;
+  to: number;
+  applied: Migration[];
+};
+
+export class SchemaVersionError extends Error {
+  readonly version: number;
+  readonly expected: number;
+
+  constructor(message: string, version: number, expected: number) {
+    super(message);
+    this.name = 'SchemaVersionError';
+    this.version = version;
+    this.expected = expected;
+  }
+}
+
+const SCHEMA_VERSION_DDL = `
+CREATE TABLE IF NOT EXISTS schema_version (
+  version INTEGER PRIMARY KEY,
+  description TEXT NOT NULL,
+  applied_at TEXT NOT NULL
+);
+`;
+
+/*
+ * Every migration must be safe to run against databases created before
+ * schema tracking existed (version 0), which may already contain some of the
+ * objects it creates.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create llm_calls table and indexes',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS llm_calls (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        timestamp TEXT NOT NULL,
+
+        model_id TEXT,
+        tags_json TEXT,
+
+        -- input
+        input_text TEXT,
+
+        -- output
+        content_json TEXT,
+
+        -- usage
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        total_tokens INTEGER,
+        cached_input_tokens INTEGER,
+        reasoning_tokens INTEGER,
+
+        -- tools
+        request_tools_json TEXT,
+
+        -- params
+        temperature REAL,
+        top_p REAL,
+        max_output_tokens INTEGER,
+
+        -- meta/misc
+        finish_reason TEXT,
+        latency_ms INTEGER,
+        warnings_json TEXT,
+        request_id TEXT,
+        response_id TEXT,
+        headers_json TEXT,
+        meta_json TEXT,
+        error_json TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS llm_calls_time_idx  ON llm_calls (timestamp DESC);
+      CREATE INDEX IF NOT EXISTS llm_calls_model_idx ON llm_calls (model_id, timestamp DESC);
+    `),
+  },
+  {
+    version: 2,
+    description: 'Add cost_usd column',
+    up: (db) => addColumn(db, 'llm_calls', 'cost_usd', 'REAL'),
+  },
+  {
+    version: 3,
+    description: 'Add llm_calls_fts full-text index',
+    up: (db) => {
+      const existing = tableExists(db, 'llm_calls_fts');
+      // External-content FTS5 index over prompts and responses, kept in sync by triggers.
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS llm_calls_fts USING fts5(
+          input_text,
+          content_json,
+          content='llm_calls',
+          content_rowid='rowid'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS llm_calls_fts_ai AFTER INSERT ON llm_calls BEGIN
+          INSERT INTO llm_calls_fts (rowid, input_text, content_json)
+          VALUES (new.rowid, new.input_text, new.content_json);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS llm_calls_fts_ad AFTER DELETE ON llm_calls BEGIN
+          INSERT INTO llm_calls_fts (llm_calls_fts, rowid, input_text, content_json)
+          VALUES ('delete', old.rowid, old.input_text, old.content_json);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS llm_calls_fts_au AFTER UPDATE OF input_text, content_json ON llm_calls BEGIN
+          INSERT INTO llm_calls_fts (llm_calls_fts, rowid, input_text, content_json)
+          VALUES ('delete', old.rowid, old.input_text, old.content_json);
+          INSERT INTO llm_calls_fts (rowid, input_text, content_json)
+          VALUES (new.rowid, new.input_text, new.content_json);
+        END;
+      `);
+      if (!existing) {
+        // Index rows written before the FTS table existed.
+        db.exec("INSERT INTO llm_calls_fts (llm_calls_fts) VALUES ('rebuild')");
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Add redactions_json column',
+    up: (db) => addColumn(db, 'llm_calls', 'redactions_json', 'TEXT'),
+  },
+  {
+    version: 5,
+    description: 'Add capture_level column',
+    up: (db) => addColumn(db, 'llm_calls', 'capture_level', 'TEXT'),
+  },
+  {
+    version: 6,
+    description: 'Add streaming timing columns',
+    up: (db) => {
+      addColumn(db, 'llm_calls', 'time_to_first_token_ms', 'INTEGER');
+      addColumn(db, 'llm_calls', 'part_timings_json', 'TEXT');
+    },
+  },
+  {
+    version: 7,
+    description: 'Add trace and session columns',
+    up: (db) => {
+      addColumn(db, 'llm_calls', 'trace_id', 'TEXT');
+      addColumn(db, 'llm_calls', 'span_id', 'TEXT');
+      addColumn(db, 'llm_calls', 'parent_span_id', 'TEXT');
+      addColumn(db, 'llm_calls', 'session_id', 'TEXT');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS llm_calls_trace_idx   ON llm_calls (trace_id, timestamp);
+        CREATE INDEX IF NOT EXISTS llm_calls_session_idx ON llm_calls (session_id, timestamp DESC);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add user_id column',
+    up: (db) => {
+      addColumn(db, 'llm_calls', 'user_id', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS llm_calls_user_idx ON llm_calls (user_id, timestamp DESC)');
+    },
+  },
+  {
+    version: 9,
+    description: 'Add llm_alerts table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS llm_alerts (
+          id TEXT PRIMARY KEY,
+          fired_at TEXT NOT NULL,
+          rule TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          dedupe_key TEXT NOT NULL,
+          message TEXT NOT NULL,
+          value REAL,
+          threshold REAL,
+          details_json TEXT,
+          deliveries_json TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS llm_alerts_fired_at_idx ON llm_alerts (fired_at DESC);
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Add llm_daily_usage and llm_rollup_imports tables',
+    up: (db) => {
+      // Aggregates of rows removed by retention, and what each import source has added to them so
+      // importing it again only adds what it pruned since. '' stands for no value; the keys are
+      // unique indexes rather than primary keys so later migrations can widen them.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS llm_daily_usage (
+          day TEXT NOT NULL,
+          model_id TEXT NOT NULL DEFAULT '',
+          finish_reason TEXT NOT NULL DEFAULT '',
+          tags_json TEXT NOT NULL DEFAULT '',
+          calls INTEGER NOT NULL DEFAULT 0,
+          errors INTEGER NOT NULL DEFAULT 0,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          total_tokens INTEGER NOT NULL DEFAULT 0,
+          cached_input_tokens INTEGER NOT NULL DEFAULT 0,
+          reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+          cost_usd REAL NOT NULL DEFAULT 0,
+          latency_ms_sum INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS llm_daily_usage_key ON llm_daily_usage (day, model_id, finish_reason, tags_json);
+
+        CREATE TABLE IF NOT EXISTS llm_rollup_imports (
+          source TEXT NOT NULL,
+          day TEXT NOT NULL,
+          model_id TEXT NOT NULL,
+          finish_reason TEXT NOT NULL,
+          tags_json TEXT NOT NULL,
+          calls INTEGER NOT NULL DEFAULT 0,
+          errors INTEGER NOT NULL DEFAULT 0,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          total_tokens INTEGER NOT NULL DEFAULT 0,
+          cached_input_tokens INTEGER NOT NULL DEFAULT 0,
+          reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+          cost_usd REAL NOT NULL DEFAULT 0,
+          latency_ms_sum INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS llm_rollup_imports_key ON llm_rollup_imports (source, day, model_id, finish_reason, tags_json);
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: 'Add prompt, call option and replay columns',
+    up: (db) => {
+      addColumn(db, 'llm_calls', 'prompt_json', 'TEXT');
+      addColumn(db, 'llm_calls', 'call_options_json', 'TEXT');
+      addColumn(db, 'llm_calls', 'replay_of', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS llm_calls_replay_of_idx ON llm_calls (replay_of, timestamp DESC)');
+    },
+  },
+  {
+    version: 12,
+    description: 'Add tenant, feature and attribute columns',
+    up: (db) => {
+      addColumn(db, 'llm_calls', 'tenant_id', 'TEXT');
+      addColumn(db, 'llm_calls', 'feature', 'TEXT');
+      addColumn(db, 'llm_calls', 'attributes_json', 'TEXT');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS llm_calls_tenant_idx  ON llm_calls (tenant_id, timestamp DESC);
+        CREATE INDEX IF NOT EXISTS llm_calls_feature_idx ON llm_calls (feature, timestamp DESC);
+      `);
+
+      // Rollups are keyed by the same attribution, with the user; existing rollups recorded none.
+      for (const table of ['llm_daily_usage', 'llm_rollup_imports']) {
+        addColumn(db, table, 'tenant_id', "TEXT NOT NULL DEFAULT ''");
+        addColumn(db, table, 'user_id', "TEXT NOT NULL DEFAULT ''");
+        addColumn(db, table, 'feature', "TEXT NOT NULL DEFAULT ''");
+      }
+      db.exec(`
+        DROP INDEX IF EXISTS llm_daily_usage_key;
+        CREATE UNIQUE INDEX llm_daily_usage_key ON llm_daily_usage (day, model_id, finish_reason, tags_json, tenant_id, user_id, feature);
+        DROP INDEX IF EXISTS llm_rollup_imports_key;
+        CREATE UNIQUE INDEX llm_rollup_imports_key ON llm_rollup_imports (source, day, model_id, finish_reason, tags_json, tenant_id, user_id, feature);
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Add llm_tool_calls table',
+    up: (db) => {
+      const existing = tableExists(db, 'llm_tool_calls');
+      // Filled by the writers from each row's content; triggers follow deletes and stripped content.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS llm_tool_calls (
+          call_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          timestamp TEXT NOT NULL,
+          model_id TEXT,
+          tool_call_id TEXT,
+          tool_name TEXT NOT NULL,
+          provider_executed INTEGER NOT NULL DEFAULT 0,
+          input_json TEXT,
+          input_bytes INTEGER,
+          outcome TEXT,
+          error_text TEXT,
+          result_call_id TEXT,
+          PRIMARY KEY (call_id, position)
+        );
+
+        CREATE INDEX IF NOT EXISTS llm_tool_calls_name_idx ON llm_tool_calls (tool_name, timestamp DESC);
+        CREATE INDEX IF NOT EXISTS llm_tool_calls_tool_call_idx ON llm_tool_calls (tool_call_id);
+
+        CREATE TRIGGER IF NOT EXISTS llm_tool_calls_ad AFTER DELETE ON llm_calls BEGIN
+          DELETE FROM llm_tool_calls WHERE call_id = old.id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS llm_tool_calls_strip AFTER UPDATE OF content_json ON llm_calls
+        WHEN new.content_json IS NULL BEGIN
+          UPDATE llm_tool_calls SET input_json = NULL WHERE call_id = old.id;
+        END;
+      `);
+      if (!existing) backfillToolCalls(db);
+    },
+  },
+  {
+    version: 14,
+    description: 'Add call type, input count and dimension columns',
+    up: (db) => {
+      // Existing rows are language model calls, so the default covers them.
+      addColumn(db, 'llm_calls', 'call_type', "TEXT NOT NULL DEFAULT 'text'");
+      addColumn(db, 'llm_calls', 'input_count', 'INTEGER');
+      addColumn(db, 'llm_calls', 'dimensions', 'INTEGER');
+      db.exec('CREATE INDEX IF NOT EXISTS llm_calls_call_type_idx ON llm_calls (call_type, timestamp DESC)');
+
+      // Rollups are keyed by call type too and sum input counts; existing rollups only hold text generations.
+      for (const table of ['llm_daily_usage', 'llm_rollup_imports']) {
+        addColumn(db, table, 'call_type', "TEXT NOT NULL DEFAULT 'text'");
+        addColumn(db, table, 'input_count', 'INTEGER NOT NULL DEFAULT 0');
+      }
+      db.exec(`
+        DROP INDEX IF EXISTS llm_daily_usage_key;
+        CREATE UNIQUE INDEX llm_daily_usage_key ON llm_daily_usage (day, model_id, call_type, finish_reason, tags_json, tenant_id, user_id, feature);
+        DROP INDEX IF EXISTS llm_rollup_imports_key;
+        CREATE UNIQUE INDEX llm_rollup_imports_key ON llm_rollup_imports (source, day, model_id, call_type, finish_reason, tags_json, tenant_id, user_id, feature);
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: Database.Database): number {
+  if (!tableExists(db, 'schema_version')) return 0;
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+export function checkSchema(db: Database.Database): SchemaCheck {
+  const version = getSchemaVersion(db);
+  const status: SchemaStatus =
+    version === SCHEMA_VERSION ? 'current' : version < SCHEMA_VERSION ? 'outdated' : 'newer';
+  return { status, version, expected: SCHEMA_VERSION };
+}
+
+export function pendingMigrations(db: Database.Database): Migration[] {
+  const version = getSchemaVersion(db);
+  return MIGRATIONS.filter((migration) => migration.version > version);
+}
+
+/**
+ * Applies every pending migration in order, each in its own transaction.
+ * Databases written by a newer release are left untouched and reported
+ * through a process warning, since their extra columns are nullable and
+ * inserts from this version keep working.
+ *
+ * Each step takes the write lock before it checks the version again, so
+ * processes opening the same outdated file at once (e.g. cluster workers
+ * after an upgrade) apply every migration exactly once between them.
+ */
+export function migrateDatabase(db: Database.Database): MigrationResult {
+  db.exec(SCHEMA_VERSION_DDL);
+  const from = getSchemaVersion(db);
+
+  if (from > SCHEMA_VERSION) {
+    process.emitWarning(
+      `Database schema version ${from} is newer than the supported version ${SCHEMA_VERSION}.`,
+      {
+        code: 'LLM_USAGE_SCHEMA_NEWER',
+        detail: 'Upgrade ai-sdk-usage-insights to make use of the newer columns.',
+      }
+    );
+    return { from, to: from, applied: [] };
+  }
+
+  const record = db.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)');
+  const applied: Migration[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= from) continue;
+    const ran = db.transaction(() => {
+      if (getSchemaVersion(db) >= migration.version) return false;
+      migration.up(db);
+      record.run(migration.version, migration.description, new Date().toISOString());
+      return true;
+    }).immediate();
+    if (ran) applied.push(migration);
+  }
+
+  return { from, to: getSchemaVersion(db), applied };
+}
+
+/** Throws a `SchemaVersionError` unless the database matches this release's schema. */
+export function assertSchemaCurrent(db: Database.Database, dbPath: string): void {
+  const { status, version, expected } = checkSchema(db);
+  if (status === 'outdated') {
+    throw new SchemaVersionError(
+      `Database "${dbPath}" uses schema version ${version}, older than the supported version ${expected}. ` +
+        `Run "ai-sdk-usage migrate ${dbPath}" to upgrade it.`,
+      version,
+      expected
+    );
+  }
+  if (status === 'newer') {
+    throw new SchemaVersionError(
+      `Database "${dbPath}" uses schema version ${version}, newer than the supported version ${expected}. ` +
+        'Upgrade ai-sdk-usage-insights to read it.',
+      version,
+      expected
+    );
+  }
+}
+
+/** Extracts the tool calls of rows saved before `llm_tool_calls` existed, oldest first. */
+function backfillToolCalls(db: Database.Database) {
+  const write = createToolCallWriter(db);
+  const select = db.prepare(`
+    SELECT rowid AS cursor, id, timestamp, model_id, prompt_json, content_json FROM llm_calls
+    WHERE rowid > ? AND (content_json LIKE '%"tool-%' OR prompt_json LIKE '%"tool-result"%')
+    ORDER BY rowid
+    LIMIT 500
+  `);
+  let cursor = 0;
+  for (;;) {
+    // Read a page at a time, since the connection cannot write while a statement is iterating.
+    const rows = select.all(cursor) as (ToolCallSourceRow & { cursor: number })[];
+    if (!rows.length) break;
+    for (const row of rows) write(row);
+    cursor = rows[rows.length - 1].cursor;
+  }
+}
+
+export function tableExists(db: Database.Database, name: string): boolean {
+  return Boolean(db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name));
+}
+
+function addColumn(db: Database.Database, table: string, column: string, type: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((info) => info.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
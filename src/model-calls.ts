@@ -0,0 +1,92 @@
+import type { LLMCallRow } from './types.js';
+
+/** The kind of model a logged call went to; language model calls are `text`. */
+export type CallType = 'text' | 'embedding' | 'image' | 'speech';
+
+export const CALL_TYPES: CallType[] = ['text', 'embedding', 'image', 'speech'];
+
+/** Calls logged through a model wrapper rather than the language model middleware. */
+export type ModelCallType = Exclude<CallType, 'text'>;
+
+export function isCallType(value: unknown): value is CallType {
+  return typeof value === 'string' && (CALL_TYPES as string[]).includes(value);
+}
+
+/**
+ * What a call sends to the model: the values to embed, the image prompt or
+ * the text to speak. `inputCount` is the number of values embedded, the
+ * number of images requested, or the characters of speech text, which is
+ * how providers bill these calls.
+ */
+export function describeModelInput(callType: ModelCallType, params: any): Pick<LLMCallRow, 'inputText' | 'inputCount'> {
+  if (callType === 'embedding') {
+    const values: unknown[] = Array.isArray(params?.values) ? params.values : [];
+    return {
+      inputText: values.map((value) => (typeof value === 'string' ? value : JSON.stringify(value))).join('\n'),
+      inputCount: values.length,
+    };
+  }
+  if (callType === 'image') {
+    return {
+      inputText: typeof params?.prompt === 'string' ? params.prompt : null,
+      inputCount: typeof params?.n === 'number' ? params.n : 1,
+    };
+  }
+  const text = typeof params?.text === 'string' ? params.text : '';
+  return { inputText: text, inputCount: text.length };
+}
+
+/**
+ * Usage and response metadata from an embedding, image or speech result.
+ * Embedding models report one token count, kept as both input and total
+ * tokens; image and speech models only report usage in some SDK versions.
+ * Generated images and audio are not stored.
+ */
+export function describeModelResult(callType: ModelCallType, result: any): Partial<LLMCallRow> {
+  const response = result?.response;
+  const described: Partial<LLMCallRow> = {
+    headersJson: response?.headers ?? null,
+    meta: result?.providerMetadata ?? null,
+    warnings: Array.isArray(result?.warnings) && result.warnings.length ? result.warnings : null,
+  };
+
+  if (callType === 'embedding') {
+    const tokens = result?.usage?.tokens ?? null;
+    const first = Array.isArray(result?.embeddings) ? result.embeddings[0] : undefined;
+    return {
+      ...described,
+      inputTokens: tokens,
+      totalTokens: tokens,
+      dimensions: first && typeof first.length === 'number' ? first.length : null,
+    };
+  }
+
+  const usage = result?.usage ?? {};
+  return {
+    ...described,
+    inputTokens: usage.inputTokens ?? null,
+    outputTokens: usage.outputTokens ?? null,
+    totalTokens: usage.totalTokens ?? null,
+  };
+}
+
+/**
+ * Returns a model that forwards everything to `model` except `method`,
+ * which goes through `intercept`. A proxy keeps the getters and class
+ * methods of provider models working, which copying their properties would
+ * not.
+ */
+export function interceptModelMethod<M extends object>(
+  model: M,
+  method: string,
+  intercept: (params: any, invoke: () => Promise<any>) => Promise<any>
+): M {
+  return new Proxy(model, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (typeof value !== 'function') return value;
+      if (property === method) return (params: any) => intercept(params, () => value.call(target, params));
+      return value.bind(target);
+    },
+  });
+}
@@ -0,0 +1,114 @@
+import type { LLMCallRow } from './types.js';
+
+export type OtelAttributes = Record<string, string | number | boolean | string[] | undefined>;
+
+/**
+ * The parts of `@opentelemetry/api` the exporter uses. A `Tracer` from
+ * `trace.getTracer()` and a `Meter` from `metrics.getMeter()` satisfy these,
+ * so this package does not depend on OpenTelemetry itself.
+ */
+export type OtelSpan = {
+  setStatus: (status: { code: number; message?: string }) => unknown;
+  end: (endTime?: Date) => void;
+};
+
+export type OtelTracer = {
+  startSpan: (name: string, options?: { kind?: number; startTime?: Date; attributes?: OtelAttributes }) => OtelSpan;
+};
+
+export type OtelHistogram = {
+  record: (value: number, attributes?: OtelAttributes) => void;
+};
+
+export type OtelMeter = {
+  createHistogram: (name: string, options?: { description?: string; unit?: string }) => OtelHistogram;
+};
+
+export type OtelExporterOptions = {
+  tracer?: OtelTracer;             // emits one client span per saved call
+  meter?: OtelMeter;               // records gen_ai.client.token.usage and gen_ai.client.operation.duration
+  operationName?: string;          // gen_ai.operation.name of text generations, default 'chat'; embeddings use 'embeddings'
+  providerName?: string;           // gen_ai.provider.name, e.g. 'openai'
+};
+
+export type OtelExporter = (row: LLMCallRow) => void;
+
+// Numeric values of SpanKind.CLIENT and SpanStatusCode.ERROR in @opentelemetry/api.
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Turns saved rows into spans and metrics following the OpenTelemetry GenAI
+ * semantic conventions. Rows are stamped when a call completes, so spans
+ * start `latencyMs` before the row's timestamp.
+ */
+export function createOtelExporter(options: OtelExporterOptions): OtelExporter {
+  const operationName = options.operationName ?? 'chat';
+  const tokenUsage = options.meter?.createHistogram('gen_ai.client.token.usage', {
+    description: 'Measures number of input and output tokens used',
+    unit: '{token}',
+  });
+  const operationDuration = options.meter?.createHistogram('gen_ai.client.operation.duration', {
+    description: 'GenAI operation duration',
+    unit: 's',
+  });
+
+  return (row) => {
+    const isError = Boolean(row.error) || row.finishReason === 'error';
+    // e.g. 'budget_exceeded'; other failures have no well-known type.
+    const errorType = !isError ? undefined : row.finishReason && row.finishReason !== 'error' ? row.finishReason : '_OTHER';
+    const operation = row.callType === 'embedding' ? 'embeddings' : operationName;
+    const metricAttributes: OtelAttributes = {
+      'gen_ai.operation.name': operation,
+      'gen_ai.provider.name': options.providerName,
+      'gen_ai.request.model': row.modelId ?? undefined,
+      'error.type': errorType,
+    };
+
+    if (options.tracer) {
+      const end = row.timestamp;
+      const start = new Date(end.getTime() - Math.max(0, row.latencyMs ?? 0));
+      const span = options.tracer.startSpan(row.modelId ? `${operation} ${row.modelId}` : operation, {
+        kind: SPAN_KIND_CLIENT,
+        startTime: start,
+        attributes: withoutUndefined({
+          ...metricAttributes,
+          'gen_ai.request.temperature': row.temperature ?? undefined,
+          'gen_ai.request.top_p': row.topP ?? undefined,
+          'gen_ai.request.max_tokens': row.maxOutputTokens ?? undefined,
+          'gen_ai.response.id': row.responseId ?? undefined,
+          'gen_ai.response.finish_reasons': row.finishReason ? [row.finishReason] : undefined,
+          'gen_ai.usage.input_tokens': row.inputTokens ?? undefined,
+          'gen_ai.usage.output_tokens': row.outputTokens ?? undefined,
+          'gen_ai.embeddings.dimension.count': row.dimensions ?? undefined,
+          'gen_ai.conversation.id': row.sessionId ?? undefined,
+          'llm_usage.trace_id': row.traceId ?? undefined,
+          'llm_usage.span_id': row.spanId ?? undefined,
+          'llm_usage.call_type': row.callType && row.callType !== 'text' ? row.callType : undefined,
+          'llm_usage.tags': row.tags?.length ? row.tags : undefined,
+          'llm_usage.user_id': row.userId ?? undefined,
+          'llm_usage.tenant_id': row.tenantId ?? undefined,
+          'llm_usage.feature': row.feature ?? undefined,
+          'llm_usage.cost_usd': row.costUsd ?? undefined,
+        }),
+      });
+      if (isError) span.setStatus({ code: SPAN_STATUS_ERROR, message: row.error?.message });
+      span.end(end);
+    }
+
+    const attributes = withoutUndefined(metricAttributes);
+    if (row.inputTokens != null) {
+      tokenUsage?.record(row.inputTokens, { ...attributes, 'gen_ai.token.type': 'input' });
+    }
+    if (row.outputTokens != null) {
+      tokenUsage?.record(row.outputTokens, { ...attributes, 'gen_ai.token.type': 'output' });
+    }
+    if (row.latencyMs != null) {
+      operationDuration?.record(row.latencyMs / 1000, attributes);
+    }
+  };
+}
+
+function withoutUndefined(attributes: OtelAttributes): OtelAttributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
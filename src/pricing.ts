@@ -0,0 +1,164 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { TokenUsageNormalized } from './types.js';
+
+/**
+ * Prices are expressed in USD per one million tokens.
+ *
+ * Following the AI SDK usage conventions, `cachedInputTokens` is treated as a
+ * subset of `inputTokens` and `reasoningTokens` as a subset of `outputTokens`,
+ * so cached and reasoning tokens are billed at their own rate instead of the
+ * regular input/output rate.
+ */
+export type ModelPrice = {
+  input: number;
+  output: number;
+  cachedInput?: number;            // defaults to `input`
+  reasoning?: number;              // defaults to `output`
+};
+
+export type PricingTable = Record<string, ModelPrice>;
+
+export type PricingOptions = {
+  prices?: PricingTable;           // highest precedence
+  pricingFile?: string;            // JSON file with a PricingTable shape
+  includeDefaults?: boolean;       // default true
+};
+
+export type PricingRegistry = {
+  resolve: (modelId: string | null | undefined) => ModelPrice | undefined;
+  estimateCost: (modelId: string | null | undefined, usage: TokenUsageNormalized) => number | null;
+  entries: () => PricingTable;
+};
+
+export const DEFAULT_MODEL_PRICES: PricingTable = {
+  // OpenAI
+  'gpt-5': { input: 1.25, output: 10, cachedInput: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+  'gpt-5-nano': { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  'o3': { input: 2, output: 8, cachedInput: 0.5 },
+  'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+
+  // Anthropic
+  'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+
+  // Google
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+};
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+export function createPricingRegistry(options: PricingOptions = {}): PricingRegistry {
+  const table: PricingTable = {};
+  const assign = (source: PricingTable) => {
+    for (const [modelId, price] of Object.entries(source)) {
+      table[normaliseModelId(modelId)] = price;
+    }
+  };
+
+  if (options.includeDefaults ?? true) assign(DEFAULT_MODEL_PRICES);
+  if (options.pricingFile) assign(loadPricingFile(options.pricingFile));
+  if (options.prices) assign(options.prices);
+
+  // Longest keys first so `gpt-4o-mini` wins over `gpt-4o` during prefix matching.
+  const keys = Object.keys(table).sort((a, b) => b.length - a.length);
+
+  const resolve = (modelId: string | null | undefined): ModelPrice | undefined => {
+    if (!modelId) return undefined;
+    for (const candidate of modelIdCandidates(modelId)) {
+      if (table[candidate]) return table[candidate];
+      const prefixMatch = keys.find((key) => isVersionedVariant(candidate, key));
+      if (prefixMatch) return table[prefixMatch];
+    }
+    return undefined;
+  };
+
+  return {
+    resolve,
+    estimateCost: (modelId, usage) => {
+      const price = resolve(modelId);
+      return price ? estimateCost(usage, price) : null;
+    },
+    entries: () => ({ ...table }),
+  };
+}
+
+export function estimateCost(usage: TokenUsageNormalized, price: ModelPrice): number | null {
+  if (usage.inputTokens == null && usage.outputTokens == null) return null;
+
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  const cachedInputTokens = Math.min(usage.cachedInputTokens ?? 0, inputTokens);
+  const reasoningTokens = Math.min(usage.reasoningTokens ?? 0, outputTokens);
+
+  const cost =
+    (inputTokens - cachedInputTokens) * price.input +
+    cachedInputTokens * (price.cachedInput ?? price.input) +
+    (outputTokens - reasoningTokens) * price.output +
+    reasoningTokens * (price.reasoning ?? price.output);
+
+  return cost / TOKENS_PER_PRICE_UNIT;
+}
+
+export function loadPricingFile(filePath: string): PricingTable {
+  const absolutePath = path.resolve(filePath);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(absolutePath, 'utf8'));
+  } catch (err) {
+    throw new Error(
+      `Unable to read pricing file "${absolutePath}": ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Pricing file "${absolutePath}" must contain an object keyed by model id.`);
+  }
+
+  const table: PricingTable = {};
+  for (const [modelId, value] of Object.entries(parsed as Record<string, any>)) {
+    if (typeof value?.input !== 'number' || typeof value?.output !== 'number') {
+      throw new Error(`Pricing for "${modelId}" in "${absolutePath}" needs numeric "input" and "output" rates.`);
+    }
+    table[modelId] = {
+      input: value.input,
+      output: value.output,
+      cachedInput: typeof value.cachedInput === 'number' ? value.cachedInput : undefined,
+      reasoning: typeof value.reasoning === 'number' ? value.reasoning : undefined,
+    };
+  }
+  return table;
+}
+
+function normaliseModelId(modelId: string): string {
+  return modelId.trim().toLowerCase();
+}
+
+function modelIdCandidates(modelId: string): string[] {
+  // Gateway-style ids such as `openai/gpt-4o` or `models/gemini-2.5-pro`
+  // fall back to the bare model name.
+  const normalised = normaliseModelId(modelId);
+  const slash = normalised.lastIndexOf('/');
+  return slash >= 0 ? [normalised, normalised.slice(slash + 1)] : [normalised];
+}
+
+function isVersionedVariant(modelId: string, key: string): boolean {
+  if (!modelId.startsWith(key)) return false;
+  const next = modelId.charAt(key.length);
+  return next === '-' || next === ':' || next === '@';
+}
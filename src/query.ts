@@ -0,0 +1,177 @@
+import {
+  breakdownBy,
+  groupRows,
+  loadAnalyticsRows,
+  metricValue,
+  percentile,
+  sortedValues,
+  summariseMetric,
+  summariseRows,
+  type BreakdownEntry,
+  type Distribution,
+  type GroupDimension,
+  type UsageMetric,
+  type UsageTotals,
+} from './dashboard/analytics.js';
+import { parseDateParam, type CallFilters, type CallStatus } from './dashboard/filters.js';
+import { resolveCost } from './dashboard/format.js';
+import type { CallType } from './model-calls.js';
+import { createPricingRegistry, type PricingRegistry, type PricingTable } from './pricing.js';
+import { openUsageReader } from './storage/open.js';
+import { fromTableRow } from './storage/serialize.js';
+import type { AnalyticsRow, LlmCallTableRow, UsageReader } from './storage/types.js';
+import type { LLMCallRow } from './types.js';
+
+/** A logged call as read back: the middleware's row shape plus its id. */
+export type UsageRecord = LLMCallRow & {
+  id: string;
+  costEstimated: boolean;          // costUsd comes from the pricing registry rather than the row
+};
+
+export type UsageStoreOptions = {
+  pricing?: PricingTable;          // per-model overrides used to price rows saved without a cost
+  pricingFile?: string;
+};
+
+export type UsageStore = {
+  /** A query over every call; narrow it with the filter methods. */
+  query: () => UsageQuery;
+  get: (id: string) => UsageRecord | null;
+  close: () => void;
+};
+
+/**
+ * Immutable, chainable query over logged calls. Filter methods return a new
+ * query; the remaining methods run it. Aggregates use the dashboard's
+ * definitions, so the numbers match the overview page.
+ */
+export type UsageQuery = {
+  readonly filters: CallFilters;
+  where: (filters: CallFilters) => UsageQuery;
+  model: (modelId: string) => UsageQuery;
+  callType: (callType: CallType) => UsageQuery;
+  tag: (tag: string) => UsageQuery;
+  finishReason: (finishReason: string) => UsageQuery;
+  status: (status: CallStatus) => UsageQuery;
+  user: (userId: string) => UsageQuery;
+  tenant: (tenantId: string) => UsageQuery;
+  feature: (feature: string) => UsageQuery;
+  attribute: (key: string, value?: string) => UsageQuery;  // without a value, any call that has the attribute
+  tool: (toolName: string) => UsageQuery;     // calls in which the model called the tool
+  session: (sessionId: string) => UsageQuery;
+  trace: (traceId: string) => UsageQuery;
+  search: (text: string) => UsageQuery;
+  since: (date: Date | string) => UsageQuery;   // inclusive; `YYYY-MM-DD` is the start of that UTC day
+  until: (date: Date | string) => UsageQuery;   // inclusive; `YYYY-MM-DD` is the end of that UTC day
+
+  records: () => UsageRecord[];    // oldest first
+  iterate: () => Iterable<UsageRecord>;
+  count: () => number;
+  totals: () => UsageTotals;
+  sum: (metric: UsageMetric) => number;
+  /** Nearest-rank percentile (0-100) over the rows that have a value. */
+  percentile: (metric: UsageMetric, p: number) => number | null;
+  distribution: (metric: UsageMetric) => Distribution;
+  groupBy: (by: GroupDimension) => GroupedUsageQuery;
+};
+
+export type GroupValue = {
+  key: string;
+  value: number | null;
+};
+
+/** Aggregates per group. Time buckets are oldest first; every other dimension heaviest first. */
+export type GroupedUsageQuery = {
+  totals: () => BreakdownEntry[];
+  sum: (metric: UsageMetric) => GroupValue[];
+  percentile: (metric: UsageMetric, p: number) => GroupValue[];
+  distribution: (metric: UsageMetric) => (Distribution & { key: string })[];
+};
+
+/**
+ * Opens a SQLite database or NDJSON file written by the middleware for
+ * reading. SQLite databases are opened read-only, as the dashboard does.
+ */
+export function openUsageStore(dbPath: string, options: UsageStoreOptions = {}): UsageStore {
+  const reader = openUsageReader(dbPath);
+  const pricing = createPricingRegistry({ prices: options.pricing, pricingFile: options.pricingFile });
+  return {
+    query: () => createUsageQuery(reader, pricing, {}),
+    get: (id) => {
+      const row = reader.getCall(id);
+      return row ? toUsageRecord(row, pricing) : null;
+    },
+    close: () => reader.close?.(),
+  };
+}
+
+function createUsageQuery(reader: UsageReader, pricing: PricingRegistry, filters: CallFilters): UsageQuery {
+  const narrow = (next: CallFilters) => createUsageQuery(reader, pricing, { ...filters, ...next });
+  const analyticsRows = (): AnalyticsRow[] => loadAnalyticsRows(reader, pricing, filters);
+
+  function* iterate(): Iterable<UsageRecord> {
+    for (const row of reader.iterateCalls(filters)) yield toUsageRecord(row, pricing);
+  }
+
+  return {
+    filters,
+    where: narrow,
+    model: (model) => narrow({ model }),
+    callType: (callType) => narrow({ callType }),
+    tag: (tag) => narrow({ tag }),
+    finishReason: (finishReason) => narrow({ finishReason }),
+    status: (status) => narrow({ status }),
+    user: (userId) => narrow({ userId }),
+    tenant: (tenantId) => narrow({ tenantId }),
+    feature: (feature) => narrow({ feature }),
+    attribute: (key, value) => narrow({ attribute: value == null ? { key } : { key, value } }),
+    tool: (toolName) => narrow({ toolName }),
+    session: (sessionId) => narrow({ sessionId }),
+    trace: (traceId) => narrow({ traceId }),
+    search: (search) => narrow({ search }),
+    since: (date) => narrow({ from: toDate(date) }),
+    until: (date) => narrow({ to: toDate(date, true) }),
+
+    records: () => [...iterate()],
+    iterate,
+    count: () => reader.sumUsage(filters).calls,
+    totals: () => summariseRows(analyticsRows()),
+    sum: (metric) => sumMetric(analyticsRows(), metric),
+    percentile: (metric, p) => percentile(sortedValues(analyticsRows(), metric), p),
+    distribution: (metric) => summariseMetric(analyticsRows(), metric),
+    groupBy: (by) => createGroupedQuery(analyticsRows, by),
+  };
+}
+
+function createGroupedQuery(load: () => AnalyticsRow[], by: GroupDimension): GroupedUsageQuery {
+  // Pairs each group's rows with its key, in breakdown order.
+  const groups = () => {
+    const rows = load();
+    const grouped = groupRows(rows, by);
+    return breakdownBy(rows, by).map((entry) => ({ key: entry.key, rows: grouped.get(entry.key) ?? [] }));
+  };
+
+  return {
+    totals: () => breakdownBy(load(), by),
+    sum: (metric) => groups().map(({ key, rows }) => ({ key, value: sumMetric(rows, metric) })),
+    percentile: (metric, p) => groups().map(({ key, rows }) => ({ key, value: percentile(sortedValues(rows, metric), p) })),
+    distribution: (metric) => groups().map(({ key, rows }) => ({ key, ...summariseMetric(rows, metric) })),
+  };
+}
+
+function toUsageRecord(row: LlmCallTableRow, pricing: PricingRegistry): UsageRecord {
+  const { costUsd, estimated } = resolveCost(row, pricing);
+  return { ...fromTableRow(row), costUsd, costEstimated: estimated };
+}
+
+function sumMetric(rows: AnalyticsRow[], metric: UsageMetric): number {
+  return rows.reduce((sum, row) => sum + (metricValue(row, metric) ?? 0), 0);
+}
+
+function toDate(value: Date | string, endOfDay = false): Date {
+  const date = value instanceof Date ? value : parseDateParam(value, { endOfDay });
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${String(value)}"; use a Date, YYYY-MM-DD or an ISO timestamp.`);
+  }
+  return date;
+}
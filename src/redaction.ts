@@ -0,0 +1,216 @@
+import crypto from 'node:crypto';
+import { redactToolActivity } from './storage/tool-calls.js';
+import type { LLMCallRow } from './types.js';
+
+export type RedactionMode = 'mask' | 'hash' | 'drop';
+
+export type RedactionField =
+  | 'inputText'
+  | 'promptJson'
+  | 'contentJson'
+  | 'requestToolsJson'
+  | 'callOptionsJson'
+  | 'headersJson'
+  | 'meta'
+  | 'error';
+
+export type BuiltInDetector = 'email' | 'phone' | 'apiKey' | 'bearer';
+
+export type RedactionRule = {
+  name: string;                    // recorded on the row when the rule fires
+  pattern?: RegExp;                // every match is redacted (the global flag is implied)
+  match?: (text: string, field: RedactionField) => string[] | boolean;  // substrings to redact, or true for the whole value
+  mode?: RedactionMode;            // defaults to RedactionOptions.mode
+  fields?: RedactionField[];       // defaults to every redactable field
+};
+
+export type HeaderRedactionOptions = {
+  allow?: string[];                // when set, only these headers are kept
+  deny?: string[];                 // removed in addition to DEFAULT_DENIED_HEADERS
+};
+
+export type RedactionOptions = {
+  detectors?: BuiltInDetector[];   // default: all built-in detectors
+  rules?: RedactionRule[];         // custom rules, applied after the detectors
+  mode?: RedactionMode;            // default 'mask'
+  headers?: HeaderRedactionOptions;
+  hashSalt?: string;               // mixed into hashes so values can't be confirmed by guessing
+};
+
+export type RedactionHit = {
+  rule: string;
+  field: RedactionField;
+  count: number;
+};
+
+export type Redactor = (row: LLMCallRow) => LLMCallRow;
+
+export const REDACTION_FIELDS: RedactionField[] = [
+  'inputText',
+  'promptJson',
+  'contentJson',
+  'requestToolsJson',
+  'callOptionsJson',
+  'headersJson',
+  'meta',
+  'error',
+];
+
+export const DEFAULT_DENIED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'api-key',
+];
+
+export const BUILT_IN_DETECTORS: Record<BuiltInDetector, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  // Requires separators between digit groups so token counts and ids are left alone.
+  phone: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]\d{3,4}[\s.-]\d{3,4}(?!\w)/g,
+  apiKey:
+    /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{16,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,})/g,
+  bearer: /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi,
+};
+
+type CompiledRule = {
+  name: string;
+  mode: RedactionMode;
+  fields: Set<RedactionField>;
+  find: (text: string, field: RedactionField) => string[] | boolean;
+};
+
+/**
+ * Builds the function applied to every row before it is saved. Text fields
+ * are scanned string by string (structured values are walked recursively),
+ * matches are masked or hashed in place, and `drop` rules null the whole
+ * field. Rules that fired are listed in `row.redactions`.
+ */
+export function createRedactor(options: RedactionOptions): Redactor {
+  const defaultMode = options.mode ?? 'mask';
+  const salt = options.hashSalt ?? '';
+  const rules = [
+    ...(options.detectors ?? (Object.keys(BUILT_IN_DETECTORS) as BuiltInDetector[])).map(
+      (detector): RedactionRule => ({ name: detector, pattern: BUILT_IN_DETECTORS[detector] })
+    ),
+    ...(options.rules ?? []),
+  ].map((rule) => compileRule(rule, defaultMode));
+
+  const allowed = options.headers?.allow ? new Set(options.headers.allow.map(lower)) : null;
+  const denied = new Set([...DEFAULT_DENIED_HEADERS, ...(options.headers?.deny ?? [])].map(lower));
+
+  return (row) => {
+    const hits: RedactionHit[] = [];
+    const redacted: LLMCallRow = { ...row };
+
+    if (redacted.headersJson && typeof redacted.headersJson === 'object') {
+      const { headers, removed } = filterHeaders(redacted.headersJson, allowed, denied);
+      redacted.headersJson = headers;
+      if (removed) hits.push({ rule: allowed ? 'headerAllowList' : 'headerDenyList', field: 'headersJson', count: removed });
+    }
+
+    for (const field of REDACTION_FIELDS) {
+      let value: unknown = redacted[field];
+      if (value == null) continue;
+
+      for (const rule of rules) {
+        if (!rule.fields.has(field) || value == null) continue;
+        let count = 0;
+        let dropField = false;
+
+        value = mapStrings(value, (text) => {
+          const found = rule.find(text, field);
+          if (found === false || (Array.isArray(found) && found.length === 0)) return text;
+          if (rule.mode === 'drop') {
+            dropField = true;
+            count += Array.isArray(found) ? found.length : 1;
+            return text;
+          }
+          if (found === true) {
+            count += 1;
+            return replacement(rule, text, salt);
+          }
+          let result = text;
+          for (const match of new Set(found)) {
+            const occurrences = result.split(match).length - 1;
+            if (!occurrences) continue;
+            count += occurrences;
+            result = result.split(match).join(replacement(rule, match, salt));
+          }
+          return result;
+        });
+
+        if (dropField) value = null;
+        if (count) hits.push({ rule: rule.name, field, count });
+      }
+
+      (redacted as Record<RedactionField, unknown>)[field] = value;
+    }
+
+    redacted.redactions = hits.length ? [...(row.redactions ?? []), ...hits] : row.redactions ?? null;
+    return redactToolActivity(redacted);
+  };
+}
+
+function compileRule(rule: RedactionRule, defaultMode: RedactionMode): CompiledRule {
+  if (!rule.name) {
+    throw new Error('Redaction rules need a name.');
+  }
+  if (!rule.pattern && !rule.match) {
+    throw new Error(`Redaction rule "${rule.name}" needs a pattern or a match function.`);
+  }
+
+  const pattern = rule.pattern
+    ? new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`)
+    : null;
+  return {
+    name: rule.name,
+    mode: rule.mode ?? defaultMode,
+    fields: new Set(rule.fields ?? REDACTION_FIELDS),
+    find: (text, field) => {
+      if (pattern) return text.match(pattern) ?? [];
+      return rule.match!(text, field);
+    },
+  };
+}
+
+function replacement(rule: CompiledRule, value: string, salt: string): string {
+  if (rule.mode === 'hash') {
+    const digest = crypto.createHash('sha256').update(salt).update(value).digest('hex').slice(0, 12);
+    return `[${rule.name}:${digest}]`;
+  }
+  return `[REDACTED:${rule.name}]`;
+}
+
+/** Applies `fn` to every string inside a value, leaving object keys untouched. */
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn));
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]));
+  }
+  return value;
+}
+
+function filterHeaders(
+  headers: Record<string, unknown>,
+  allowed: Set<string> | null,
+  denied: Set<string>
+): { headers: Record<string, unknown>; removed: number } {
+  const kept: Record<string, unknown> = {};
+  let removed = 0;
+  for (const [name, value] of Object.entries(headers)) {
+    const key = lower(name);
+    if ((allowed && !allowed.has(key)) || denied.has(key)) {
+      removed += 1;
+      continue;
+    }
+    kept[name] = value;
+  }
+  return { headers: kept, removed };
+}
+
+function lower(value: string): string {
+  return value.toLowerCase();
+}
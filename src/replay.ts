@@ -0,0 +1,206 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseAttributes, parseTags, safeParseJson } from './dashboard/format.js';
+import { isNdjsonPath, openUsageReader } from './storage/open.js';
+import type { LlmCallTableRow } from './storage/types.js';
+import type { LoggerOptions } from './types.js';
+import { createUsageLoggerMiddleware } from './usage-logger.js';
+
+/**
+ * The parts of an AI SDK `LanguageModelV2` that replay uses. Provider models
+ * and `MockLanguageModelV2` from `ai/test` satisfy it.
+ */
+export type ReplayModel = {
+  modelId: string;
+  provider?: string;
+  doGenerate: (options: any) => PromiseLike<any>;
+  doStream: (options: any) => PromiseLike<any>;
+};
+
+/** `LanguageModelV2CallOptions` rebuilt from a stored row. */
+export type ReplayCall = Record<string, any> & {
+  prompt: any[];
+};
+
+export type ReplayOptions = {
+  model: ReplayModel;
+  stream?: boolean;                // replay through doStream, default doGenerate
+  overrides?: Record<string, unknown>;  // replace stored call options, e.g. { temperature: 0 }
+  tags?: string[];                 // tags for the new row, default the original's
+  logger?: Omit<LoggerOptions, 'storage' | 'dirPath' | 'fileName'>;  // e.g. pricing or redaction for the new row
+};
+
+export type ReplayResult = {
+  call: ReplayCall;                // options sent to the model
+  original: LlmCallTableRow;
+  replay: LlmCallTableRow | null;  // the new row, linked through replay_of
+};
+
+export class ReplayError extends Error {
+  readonly callId: string;
+
+  constructor(callId: string, message: string) {
+    super(message);
+    this.name = 'ReplayError';
+    this.callId = callId;
+  }
+}
+
+/**
+ * Sends a logged call again through `options.model` and logs the result to
+ * the same usage file as a new row whose `replay_of` is the original id.
+ * Failed replays are logged too, and the model's error is rethrown.
+ */
+export async function replayCall(dbPath: string, id: string, options: ReplayOptions): Promise<ReplayResult> {
+  const absolutePath = path.resolve(dbPath);
+  // Opening the logger first migrates older databases, so the reader below accepts them.
+  const logger = createUsageLoggerMiddleware({
+    ...options.logger,
+    storage: isNdjsonPath(absolutePath) ? 'ndjson' : 'sqlite',
+    dirPath: path.dirname(absolutePath),
+    fileName: path.basename(absolutePath),
+  });
+
+  let original: LlmCallTableRow;
+  let call: ReplayCall;
+  try {
+    original = readCall(absolutePath, id);
+    call = { ...buildReplayCall(original), ...options.overrides } as ReplayCall;
+  } catch (err) {
+    await logger.close();
+    throw err;
+  }
+
+  const { model } = options;
+  const params = {
+    ...call,
+    providerOptions: {
+      ...call.providerOptions,
+      usageLogger: {
+        tags: options.tags ?? (original.tags_json ? parseTags(original.tags_json) : undefined),
+        userId: original.user_id ?? undefined,
+        tenantId: original.tenant_id ?? undefined,
+        feature: original.feature ?? undefined,
+        attributes: parseAttributes(original.attributes_json),
+        replayOf: original.id,
+      },
+    },
+  };
+
+  try {
+    if (options.stream) {
+      const { stream } = await logger.wrapStream({ doStream: () => model.doStream(params), params, model });
+      const reader = (stream as ReadableStream<any>).getReader();
+      for (;;) {
+        const { done } = await reader.read();
+        if (done) break;
+      }
+    } else {
+      await logger.wrapGenerate({ doGenerate: () => model.doGenerate(params), params, model });
+    }
+  } finally {
+    await logger.close();
+  }
+
+  return { call, original, replay: findLatestReplay(absolutePath, original.id) };
+}
+
+/**
+ * Rebuilds the call options of a logged call: its prompt, tools, sampling
+ * parameters and any other stored settings. Rows saved before prompts were
+ * stored fall back to the messages in `input_text` when they are plain text.
+ */
+export function buildReplayCall(row: LlmCallTableRow): ReplayCall {
+  if (row.call_type && row.call_type !== 'text') {
+    throw new ReplayError(row.id, `Call "${row.id}" is an ${row.call_type} call; only text generations can be replayed.`);
+  }
+  const stored = safeParseJson(row.prompt_json);
+  const prompt = Array.isArray(stored) ? stored : promptFromInputText(row.input_text);
+  if (!prompt) {
+    const level = row.capture_level && row.capture_level !== 'full' ? ` (it was captured at level "${row.capture_level}")` : '';
+    throw new ReplayError(row.id, `Call "${row.id}" has no stored prompt to replay${level}.`);
+  }
+
+  const callOptions = safeParseJson(row.call_options_json);
+  const call: ReplayCall = {
+    ...(callOptions && typeof callOptions === 'object' ? callOptions : {}),
+    prompt,
+  };
+  const tools = safeParseJson(row.request_tools_json);
+  if (Array.isArray(tools) && tools.length) call.tools = tools;
+  if (row.temperature != null) call.temperature = row.temperature;
+  if (row.top_p != null) call.topP = row.top_p;
+  if (row.max_output_tokens != null) call.maxOutputTokens = row.max_output_tokens;
+  return call;
+}
+
+/**
+ * Imports a model module for `ai-sdk-usage replay`. Its default (or `model`)
+ * export is either a model or a function that receives the original call's
+ * model id and returns one.
+ */
+export async function loadModelModule(modulePath: string, originalModelId: string | null): Promise<ReplayModel> {
+  const loaded = await import(pathToFileURL(path.resolve(modulePath)).href);
+  const exported = loaded.default ?? loaded.model;
+  const model = typeof exported === 'function' ? await exported(originalModelId) : exported;
+  if (!model || typeof model.doGenerate !== 'function' || typeof model.doStream !== 'function') {
+    throw new Error(
+      `"${modulePath}" must export a language model, or a function returning one, as its default or "model" export.`
+    );
+  }
+  return model as ReplayModel;
+}
+
+function readCall(filePath: string, id: string): LlmCallTableRow {
+  const reader = openUsageReader(filePath);
+  try {
+    const row = reader.getCall(id);
+    if (!row) throw new ReplayError(id, `No call with id "${id}" in "${filePath}".`);
+    return row;
+  } finally {
+    reader.close?.();
+  }
+}
+
+function findLatestReplay(filePath: string, originalId: string): LlmCallTableRow | null {
+  const reader = openUsageReader(filePath);
+  try {
+    const [latest] = reader.listCalls({ replayOf: originalId }, { pageSize: 1 }).rows;
+    return latest ? reader.getCall(latest.id) ?? null : null;
+  } finally {
+    reader.close?.();
+  }
+}
+
+/** Turns `input_text` lines of `{ role, content }` JSON into a prompt, when every message is plain text. */
+function promptFromInputText(inputText: string | null): any[] | null {
+  if (!inputText) return null;
+  const prompt: any[] = [];
+  for (const line of inputText.split('\n')) {
+    if (!line.trim()) continue;
+    const message = safeParseJson(line) as { role?: unknown; content?: unknown } | string | null;
+    if (!message || typeof message !== 'object' || typeof message.role !== 'string') return null;
+
+    const text = textOf(message.content);
+    if (text == null) return null;
+    if (message.role === 'system' || message.role === 'developer') {
+      prompt.push({ role: 'system', content: text });
+    } else if (message.role === 'user' || message.role === 'assistant') {
+      prompt.push({ role: message.role, content: [{ type: 'text', text }] });
+    } else {
+      return null;
+    }
+  }
+  return prompt.length ? prompt : null;
+}
+
+function textOf(content: unknown): string | null {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return null;
+  const texts: string[] = [];
+  for (const part of content) {
+    if (!part || typeof part.text !== 'string' || !['text', 'input_text', 'output_text'].includes(part.type)) return null;
+    texts.push(part.text);
+  }
+  return texts.join('');
+}
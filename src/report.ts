@@ -0,0 +1,167 @@
+import type { BreakdownEntry, GroupDimension, UsageTotals } from './dashboard/analytics.js';
+import type { ApiCallSummary } from './dashboard/api.js';
+import { filtersToQuery, parseDateParam, type CallFilters } from './dashboard/filters.js';
+import { formatCurrency } from './dashboard/format.js';
+import type { UsageQuery } from './query.js';
+import type { CallListRow, UsageReader } from './storage/types.js';
+
+/** Totals for a window of calls and per group, as printed by `ai-sdk-usage report`. */
+export type UsageReport = {
+  by: GroupDimension;
+  from: string | null;             // ISO timestamp, null when unbounded
+  to: string | null;
+  filters: Record<string, string>; // other filters in query-string form
+  totals: UsageTotals;
+  groups: BreakdownEntry[];
+};
+
+export type CallTailOptions = {
+  filters?: CallFilters;
+  intervalMs?: number;             // default 1000
+  onCalls: (rows: CallListRow[]) => void;  // oldest first
+  onError?: (error: unknown) => void;      // polling stops after an error
+};
+
+export type CallTail = {
+  stop: () => void;
+};
+
+const TAIL_BATCH_SIZE = 100;
+
+const DURATION_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export function buildUsageReport(query: UsageQuery, by: GroupDimension): UsageReport {
+  const { from, to, ...rest } = query.filters;
+  return {
+    by,
+    from: from?.toISOString() ?? null,
+    to: to?.toISOString() ?? null,
+    filters: filtersToQuery(rest),
+    totals: query.totals(),
+    groups: query.groupBy(by).totals(),
+  };
+}
+
+/**
+ * Reads a `--since`/`--until` value: a relative duration such as `30m`,
+ * `24h`, `7d` or `2w` before `now`, `now` itself, a `YYYY-MM-DD` date or an
+ * ISO timestamp. Returns null when the value is not understood.
+ */
+export function parseTimeWindow(value: string, options: { endOfDay?: boolean; now?: Date } = {}): Date | null {
+  const now = options.now ?? new Date();
+  const trimmed = value.trim();
+  if (trimmed === 'now') return now;
+  const relative = /^(\d+)\s*([mhdw])$/.exec(trimmed);
+  if (relative) return new Date(now.getTime() - Number(relative[1]) * DURATION_MS[relative[2]]);
+  return parseDateParam(trimmed, { endOfDay: options.endOfDay });
+}
+
+/** Renders a report as an aligned plain-text table for a terminal. */
+export function formatUsageReport(report: UsageReport): string {
+  const window = `${report.from ?? 'the first call'} to ${report.to ?? 'now'}`;
+  const filters = Object.entries(report.filters).map(([name, value]) => `${name}=${value}`);
+  const lines = [`Usage from ${window}${filters.length ? ` (${filters.join(', ')})` : ''}`, ''];
+  if (!report.totals.calls) {
+    lines.push('No calls match.');
+    return lines.join('\n');
+  }
+
+  const headers = [report.by, 'calls', 'errors', 'input', 'output', 'total tokens', 'cost', 'p50 ms', 'p95 ms', 'p99 ms'];
+  const toCells = (key: string, totals: UsageTotals) => [
+    key,
+    formatCount(totals.calls),
+    totals.errors ? `${formatCount(totals.errors)} (${(totals.errorRate * 100).toFixed(1)}%)` : '0',
+    formatCount(totals.inputTokens),
+    formatCount(totals.outputTokens),
+    formatCount(totals.totalTokens),
+    formatCurrency(totals.costUsd),
+    formatCount(totals.latency.p50),
+    formatCount(totals.latency.p95),
+    formatCount(totals.latency.p99),
+  ];
+  const body = report.groups.map((group) => toCells(formatGroupKey(group.key, report.by), group));
+  lines.push(...formatTable(headers, [...body, toCells('total', report.totals)]));
+  if (report.by === 'tag') {
+    lines.push('', 'Calls with several tags count towards each of them, so tag rows can add up to more than the total.');
+  }
+  return lines.join('\n');
+}
+
+/** One line per call for `ai-sdk-usage tail`. */
+export function formatCallLine(call: ApiCallSummary): string {
+  const tokens = `${formatCount(call.usage.inputTokens)} in / ${formatCount(call.usage.outputTokens)} out`;
+  const cost = call.costUsd == null ? '—' : `${formatCurrency(call.costUsd)}${call.costEstimated ? '*' : ''}`;
+  const latency = call.latencyMs == null ? '—' : `${formatCount(call.latencyMs)} ms`;
+  const status = call.isError ? 'ERROR' : call.finishReason ?? '—';
+  return [
+    call.timestamp,
+    call.modelId ?? '(unknown)',
+    call.callType !== 'text' ? call.callType : '',
+    tokens,
+    cost,
+    latency,
+    status,
+    call.tenantId ? `tenant=${call.tenantId}` : '',
+    call.tags.length ? `[${call.tags.join(', ')}]` : '',
+    call.id,
+  ].filter(Boolean).join('  ');
+}
+
+/**
+ * Polls a reader for calls saved after it started, the way the dashboard's
+ * live stream does, and hands each batch to `onCalls`.
+ */
+export function tailCalls(reader: UsageReader, options: CallTailOptions): CallTail {
+  const filters = options.filters ?? {};
+  let cursor = reader.latestCursor();
+  let timer: NodeJS.Timeout | undefined;
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+  };
+  const poll = () => {
+    try {
+      for (;;) {
+        const batch = reader.listNewCalls(cursor, filters, TAIL_BATCH_SIZE);
+        const advanced = batch.cursor !== cursor;
+        cursor = batch.cursor;
+        if (batch.rows.length) options.onCalls(batch.rows);
+        if (!advanced || batch.rows.length < TAIL_BATCH_SIZE) break;
+      }
+    } catch (err) {
+      stop();
+      options.onError?.(err);
+    }
+  };
+
+  timer = setInterval(poll, options.intervalMs ?? 1000);
+  return { stop };
+}
+
+function formatGroupKey(key: string, by: GroupDimension): string {
+  if (by === 'day' || by === 'week') return key.slice(0, 10);
+  if (by === 'hour') return `${key.slice(0, 10)} ${key.slice(11, 16)}`;
+  return key;
+}
+
+function formatCount(value: number | null): string {
+  if (value == null) return '—';
+  return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toFixed(1);
+}
+
+/** Aligns rows under their headers; the last row is a total and gets a rule above it. */
+function formatTable(headers: string[], rows: string[][]): string[] {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  // The first column is a label; the rest are numbers and align right.
+  const render = (cells: string[]) =>
+    cells.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ').trimEnd();
+  const rule = widths.map((width) => '-'.repeat(width)).join('  ');
+  const body = rows.slice(0, -1).map(render);
+  return [render(headers), rule, ...body, rule, render(rows[rows.length - 1])];
+}
@@ -0,0 +1,248 @@
+import type Database from 'better-sqlite3';
+import type { DailyUsageTableRow, LlmCallTableRow } from './storage/types.js';
+
+export type StrippableField = Extract<
+  keyof LlmCallTableRow,
+  'input_text' | 'prompt_json' | 'content_json' | 'headers_json' | 'request_tools_json' | 'meta_json' | 'warnings_json' | 'part_timings_json'
+>;
+
+export const STRIPPABLE_FIELDS: StrippableField[] = [
+  'input_text',
+  'prompt_json',
+  'content_json',
+  'headers_json',
+  'request_tools_json',
+  'meta_json',
+  'warnings_json',
+  'part_timings_json',
+];
+
+export const DEFAULT_STRIP_FIELDS: StrippableField[] = ['input_text', 'prompt_json', 'content_json', 'headers_json'];
+
+export type VacuumMode = 'incremental' | 'full' | false;
+
+export type RetentionOptions = {
+  deleteAfterDays?: number;        // delete rows older than this many days
+  stripAfterDays?: number;         // clear heavy fields of rows older than this, keeping usage numbers
+  stripFields?: StrippableField[]; // default input_text, prompt_json, content_json, headers_json
+  rollup?: boolean;                // add deleted rows to llm_daily_usage first, default true
+  batchSize?: number;              // rows per transaction, default 1000
+  vacuum?: VacuumMode;             // reclaim freed pages afterwards, default 'incremental'
+  intervalMs?: number;             // LoggerOptions only: how often retention runs, default 1 hour
+};
+
+export type PruneOptions = Omit<RetentionOptions, 'intervalMs'> & {
+  dryRun?: boolean;                // count matching rows without changing anything
+  now?: Date;
+};
+
+export type PruneResult = {
+  stripped: number;                // rows whose heavy fields were cleared
+  deleted: number;
+  rolledUp: number;                // deleted rows added to llm_daily_usage
+  vacuum: VacuumMode | 'skipped';  // 'skipped' when the database does not use incremental auto_vacuum
+  freedPages: number;
+};
+
+const DAY_MS = 86_400_000;
+
+/** The columns that key an `llm_daily_usage` row. */
+export const ROLLUP_KEY_COLUMNS: (keyof DailyUsageTableRow)[] = [
+  'day', 'model_id', 'call_type', 'finish_reason', 'tags_json', 'tenant_id', 'user_id', 'feature',
+];
+
+/** The columns of an `llm_daily_usage` row that are summed. */
+export const ROLLUP_SUM_COLUMNS: (keyof DailyUsageTableRow)[] = [
+  'calls', 'errors', 'input_tokens', 'output_tokens', 'total_tokens', 'cached_input_tokens', 'reasoning_tokens', 'input_count',
+  'cost_usd', 'latency_ms_sum',
+];
+
+/** Ends an insert into `llm_daily_usage` so a row with an existing key is added to it. */
+export const ROLLUP_UPSERT = `ON CONFLICT (${ROLLUP_KEY_COLUMNS.join(', ')}) DO UPDATE SET ${ROLLUP_SUM_COLUMNS.map(
+  (column) => `${column} = ${column} + excluded.${column}`
+).join(', ')}`;
+
+/**
+ * Applies a retention policy to a migrated usage database. Work happens in
+ * short transactions of `batchSize` rows with a turn of the event loop
+ * between them, so saves from this process and writers in other processes
+ * are not held up for the length of the prune.
+ *
+ * Incremental vacuum only frees pages in databases created with
+ * `auto_vacuum = INCREMENTAL`; `vacuum: 'full'` rewrites the whole file and
+ * converts it, after which the full-text index is rebuilt because VACUUM may
+ * renumber the rowids it refers to.
+ */
+export async function pruneDatabase(db: Database.Database, options: PruneOptions): Promise<PruneResult> {
+  validateRetention(options);
+  const now = options.now ?? new Date();
+  const batchSize = options.batchSize ?? 1000;
+  const fields = options.stripFields ?? DEFAULT_STRIP_FIELDS;
+  const result: PruneResult = { stripped: 0, deleted: 0, rolledUp: 0, vacuum: options.vacuum ?? 'incremental', freedPages: 0 };
+
+  const deleteBefore = options.deleteAfterDays != null ? cutoff(now, options.deleteAfterDays) : null;
+  const stripBefore = options.stripAfterDays != null ? cutoff(now, options.stripAfterDays) : null;
+
+  if (options.dryRun) {
+    if (deleteBefore) {
+      result.deleted = count(db, 'timestamp < ?', [deleteBefore]);
+      if (options.rollup ?? true) result.rolledUp = result.deleted;
+    }
+    if (stripBefore && fields.length) {
+      const rangeSql = deleteBefore ? 'timestamp < ? AND timestamp >= ?' : 'timestamp < ?';
+      const params = deleteBefore ? [stripBefore, deleteBefore] : [stripBefore];
+      result.stripped = count(db, `${rangeSql} AND (${fields.map((field) => `${field} IS NOT NULL`).join(' OR ')})`, params);
+    }
+    result.vacuum = false;
+    return result;
+  }
+
+  if (deleteBefore) {
+    const selectBatch = db.prepare('SELECT rowid FROM llm_calls WHERE timestamp < ? ORDER BY timestamp LIMIT ?').pluck();
+    const rollup = db.prepare(`
+      INSERT INTO llm_daily_usage (${[...ROLLUP_KEY_COLUMNS, ...ROLLUP_SUM_COLUMNS].join(', ')})
+      SELECT
+        substr(timestamp, 1, 10), COALESCE(model_id, ''), COALESCE(call_type, 'text'), COALESCE(finish_reason, ''), COALESCE(tags_json, ''),
+        COALESCE(tenant_id, ''), COALESCE(user_id, ''), COALESCE(feature, ''), COUNT(*),
+        SUM(CASE WHEN finish_reason = 'error' OR error_json IS NOT NULL THEN 1 ELSE 0 END),
+        COALESCE(SUM(input_tokens), 0), COALESCE(SUM(output_tokens), 0), COALESCE(SUM(total_tokens), 0),
+        COALESCE(SUM(cached_input_tokens), 0), COALESCE(SUM(reasoning_tokens), 0), COALESCE(SUM(input_count), 0),
+        COALESCE(SUM(cost_usd), 0), COALESCE(SUM(latency_ms), 0)
+      FROM llm_calls
+      WHERE rowid IN (SELECT value FROM json_each(?))
+      GROUP BY 1, 2, 3, 4, 5, 6, 7, 8
+      ${ROLLUP_UPSERT}
+    `);
+    const remove = db.prepare('DELETE FROM llm_calls WHERE rowid IN (SELECT value FROM json_each(?))');
+    const deleteBatch = db.transaction((rowids: number[]) => {
+      const list = JSON.stringify(rowids);
+      if (options.rollup ?? true) {
+        rollup.run(list);
+        result.rolledUp += rowids.length;
+      }
+      result.deleted += remove.run(list).changes;
+    });
+
+    for (;;) {
+      const rowids = selectBatch.all(deleteBefore, batchSize) as number[];
+      if (!rowids.length) break;
+      deleteBatch(rowids);
+      if (rowids.length < batchSize) break;
+      await yieldToEventLoop();
+    }
+  }
+
+  if (stripBefore && fields.length) {
+    const strip = db.prepare(`
+      UPDATE llm_calls SET ${fields.map((field) => `${field} = NULL`).join(', ')}
+      WHERE rowid IN (
+        SELECT rowid FROM llm_calls
+        WHERE timestamp < ? AND (${fields.map((field) => `${field} IS NOT NULL`).join(' OR ')})
+        LIMIT ?
+      )
+    `);
+    for (;;) {
+      const { changes } = strip.run(stripBefore, batchSize);
+      result.stripped += changes;
+      if (changes < batchSize) break;
+      await yieldToEventLoop();
+    }
+  }
+
+  if (result.vacuum === 'full') {
+    db.pragma('auto_vacuum = INCREMENTAL');
+    const before = db.pragma('page_count', { simple: true }) as number;
+    db.exec('VACUUM');
+    db.exec("INSERT INTO llm_calls_fts (llm_calls_fts) VALUES ('rebuild')");
+    result.freedPages = Math.max(0, before - (db.pragma('page_count', { simple: true }) as number));
+  } else if (result.vacuum === 'incremental') {
+    if (db.pragma('auto_vacuum', { simple: true }) !== 2) {
+      result.vacuum = 'skipped';
+    } else {
+      let free = db.pragma('freelist_count', { simple: true }) as number;
+      while (free > 0) {
+        db.pragma(`incremental_vacuum(${Math.min(free, batchSize)})`);
+        const remaining = db.pragma('freelist_count', { simple: true }) as number;
+        if (remaining >= free) break;
+        result.freedPages += free - remaining;
+        free = remaining;
+        await yieldToEventLoop();
+      }
+    }
+  }
+
+  return result;
+}
+
+export type RetentionSchedule = {
+  /** Cancels future runs and waits for a running prune to finish. */
+  stop: () => Promise<void>;
+};
+
+/**
+ * Runs `prune` shortly after start-up and then every `intervalMs`. Timers
+ * are unref'd so they never keep the process alive; failures surface as
+ * `LLM_USAGE_PRUNE_FAILURE` warnings.
+ */
+export function scheduleRetention(
+  prune: (options: PruneOptions) => Promise<PruneResult>,
+  options: RetentionOptions
+): RetentionSchedule {
+  validateRetention(options);
+  const { intervalMs = 3_600_000, ...pruneOptions } = options;
+  let running: Promise<void> | null = null;
+  let stopped = false;
+
+  const run = () => {
+    if (running || stopped) return;
+    running = prune(pruneOptions)
+      .then(() => undefined, (err) => {
+        process.emitWarning(`Retention run failed: ${err instanceof Error ? err.message : String(err)}`, {
+          code: 'LLM_USAGE_PRUNE_FAILURE',
+        });
+      })
+      .finally(() => {
+        running = null;
+      });
+  };
+
+  const first = setTimeout(run, 0);
+  const timer = setInterval(run, intervalMs);
+  first.unref();
+  timer.unref();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      clearTimeout(first);
+      clearInterval(timer);
+      await running;
+    },
+  };
+}
+
+export function validateRetention(options: RetentionOptions) {
+  for (const key of ['deleteAfterDays', 'stripAfterDays', 'batchSize', 'intervalMs'] as const) {
+    const value = options[key];
+    if (value != null && !(Number.isFinite(value) && value > 0)) {
+      throw new Error(`Retention option ${key} must be a positive number.`);
+    }
+  }
+  for (const field of options.stripFields ?? []) {
+    if (!STRIPPABLE_FIELDS.includes(field)) {
+      throw new Error(`Retention cannot strip "${String(field)}"; use one of ${STRIPPABLE_FIELDS.join(', ')}.`);
+    }
+  }
+}
+
+function cutoff(now: Date, days: number): string {
+  return new Date(now.getTime() - days * DAY_MS).toISOString();
+}
+
+function count(db: Database.Database, where: string, params: string[]): number {
+  return db.prepare(`SELECT COUNT(*) FROM llm_calls WHERE ${where}`).pluck().get(...params) as number;
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
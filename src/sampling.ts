@@ -0,0 +1,93 @@
+import type { LLMCallRow } from './types.js';
+
+/**
+ * How much of a call is stored:
+ * - `usage`: model, tags, token counts, cost, latency, finish reason and the error message
+ * - `metadata`: usage plus call parameters, warnings, ids, headers, provider metadata and error stack
+ * - `full`: metadata plus prompt, response content and tool definitions
+ */
+export type CaptureLevel = 'usage' | 'metadata' | 'full';
+
+export type SamplingRule = {
+  tag?: string;                    // matches calls carrying this tag
+  model?: string | RegExp;         // exact model id, or a pattern
+  sampleRate?: number;             // share of matching calls captured at `level`, 0..1
+  level?: CaptureLevel;            // level for sampled calls
+};
+
+export type SamplingOptions = {
+  sampleRate?: number;             // share of calls captured at `level`, default 1
+  level?: CaptureLevel;            // level for sampled calls, default 'full'
+  fallbackLevel?: CaptureLevel;    // level for calls outside the sample, default 'usage'
+  rules?: SamplingRule[];          // first matching rule overrides sampleRate/level
+  keepFullOnError?: boolean;       // default true
+  slowCallMs?: number;             // calls at least this slow are always captured in full
+  random?: () => number;           // source of randomness, default Math.random
+};
+
+export type Sampler = (row: LLMCallRow) => LLMCallRow;
+
+export const CAPTURE_LEVELS: CaptureLevel[] = ['usage', 'metadata', 'full'];
+
+export function isCaptureLevel(value: unknown): value is CaptureLevel {
+  return typeof value === 'string' && (CAPTURE_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Decides the capture level of each row and strips the fields that level
+ * excludes. Errors and slow calls are always kept in full; otherwise a
+ * level already set on the row (a per-call override) wins over the
+ * sampling rules.
+ */
+export function createSampler(options: SamplingOptions = {}): Sampler {
+  const random = options.random ?? Math.random;
+  const keepFullOnError = options.keepFullOnError ?? true;
+  const rules = options.rules ?? [];
+
+  const chooseLevel = (row: LLMCallRow): CaptureLevel => {
+    if (keepFullOnError && (row.error || row.finishReason === 'error')) return 'full';
+    if (options.slowCallMs != null && row.latencyMs != null && row.latencyMs >= options.slowCallMs) return 'full';
+    if (row.captureLevel) return row.captureLevel;
+
+    const rule = rules.find((candidate) => matchesRule(candidate, row));
+    const sampleRate = rule?.sampleRate ?? options.sampleRate ?? 1;
+    const level = rule?.level ?? options.level ?? 'full';
+    return random() < sampleRate ? level : options.fallbackLevel ?? 'usage';
+  };
+
+  return (row) => applyCaptureLevel(row, chooseLevel(row));
+}
+
+export function applyCaptureLevel(row: LLMCallRow, level: CaptureLevel): LLMCallRow {
+  const captured: LLMCallRow = { ...row, captureLevel: level };
+  if (level === 'full') return captured;
+
+  captured.inputText = null;
+  captured.promptJson = null;
+  captured.contentJson = null;
+  captured.requestToolsJson = null;
+  // Tool names, sizes and outcomes stay for analytics; only the arguments go with the content.
+  captured.toolCalls = row.toolCalls?.map((call) => ({ ...call, inputJson: null })) ?? null;
+  if (level === 'metadata') return captured;
+
+  captured.temperature = null;
+  captured.topP = null;
+  captured.maxOutputTokens = null;
+  captured.callOptionsJson = null;
+  captured.warnings = null;
+  captured.requestId = null;
+  captured.responseId = null;
+  captured.headersJson = null;
+  captured.meta = null;
+  captured.error = row.error ? { message: row.error.message } : null;
+  return captured;
+}
+
+function matchesRule(rule: SamplingRule, row: LLMCallRow): boolean {
+  if (rule.tag != null && !row.tags?.includes(rule.tag)) return false;
+  if (rule.model != null) {
+    const modelId = row.modelId ?? '';
+    if (typeof rule.model === 'string' ? rule.model !== modelId : !rule.model.test(modelId)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,189 @@
+import type { AttributeFilter, CallFilters, PageCursor } from '../dashboard/filters.js';
+import { isErrorRow } from '../dashboard/analytics.js';
+import { parseAttributes, parseTags } from '../dashboard/format.js';
+import { groupMetricsRows } from '../dashboard/metrics.js';
+import { buildToolCallRows, extractToolCalls } from './tool-calls.js';
+import type { AlertTableRow, CallPage, CallPageRequest, LlmCallTableRow, NewCalls, ToolCallTableRow, UsageReader } from './types.js';
+
+/**
+ * `UsageReader` that evaluates filters in JavaScript over rows held in
+ * memory. Used by backends without a query engine (NDJSON files, the
+ * in-memory store); it mirrors the semantics of the SQLite reader, with
+ * search falling back to case-insensitive substring matching. Rows are
+ * expected in the order they were saved; a row's change cursor is its
+ * position in that list unless `cursorOf` says otherwise, and must grow
+ * with that order.
+ */
+export function createInMemoryReader(
+  loadRows: () => LlmCallTableRow[],
+  loadAlerts: () => AlertTableRow[] = () => [],
+  cursorOf: (row: LlmCallTableRow, index: number) => number = (_row, index) => index + 1
+): UsageReader {
+  const latestCursor = (rows: LlmCallTableRow[]) => (rows.length ? cursorOf(rows[rows.length - 1], rows.length - 1) : 0);
+
+  const sortedRows = (filters: CallFilters) =>
+    loadRows()
+      .filter((row) => matchesFilters(row, filters))
+      .sort(compareNewestFirst);
+
+  return {
+    listCalls: (filters: CallFilters, page: CallPageRequest): CallPage => {
+      const rows = sortedRows(filters);
+      const { pageSize, before } = page;
+      const after = before ? null : page.after;
+
+      let start = 0;
+      let end = Math.min(rows.length, pageSize);
+      if (before) {
+        start = rows.findIndex((row) => compareToCursor(row, before) < 0);
+        if (start < 0) start = rows.length;
+        end = Math.min(rows.length, start + pageSize);
+      } else if (after) {
+        end = rows.findIndex((row) => compareToCursor(row, after) <= 0);
+        if (end < 0) end = rows.length;
+        start = Math.max(0, end - pageSize);
+      }
+
+      return {
+        rows: rows.slice(start, end),
+        total: rows.length,
+        hasOlder: end < rows.length,
+        hasNewer: start > 0,
+      };
+    },
+    getCall: (id) => loadRows().find((row) => row.id === id),
+    listTrace: (traceId) =>
+      loadRows()
+        .filter((row) => row.trace_id === traceId)
+        .sort((a, b) => compareNewestFirst(b, a)),
+    listAnalyticsRows: (filters) => loadRows().filter((row) => matchesFilters(row, filters)),
+    // These backends have no retention, so nothing is ever rolled up.
+    listRolledUpRows: () => [],
+    iterateCalls: (filters) => sortedRows(filters).reverse(),
+    sumUsage: (filters) => {
+      const sum = { calls: 0, totalTokens: 0, costUsd: 0 };
+      for (const row of loadRows()) {
+        if (!matchesFilters(row, filters)) continue;
+        sum.calls += 1;
+        sum.totalTokens += row.total_tokens ?? 0;
+        sum.costUsd += row.cost_usd ?? 0;
+      }
+      return sum;
+    },
+    metricsGroups: () => groupMetricsRows(loadRows()),
+    facets: () => {
+      const rows = loadRows();
+      const models = new Set<string>();
+      const callTypes = new Set<string>();
+      const tags = new Set<string>();
+      const finishReasons = new Set<string>();
+      const tenants = new Set<string>();
+      const features = new Set<string>();
+      const attributeKeys = new Set<string>();
+      const tools = new Set<string>();
+      for (const row of rows) {
+        if (row.model_id != null) models.add(row.model_id);
+        callTypes.add(row.call_type ?? 'text');
+        for (const tag of parseTags(row.tags_json)) tags.add(tag);
+        if (row.finish_reason != null) finishReasons.add(row.finish_reason);
+        if (row.tenant_id != null) tenants.add(row.tenant_id);
+        if (row.feature != null) features.add(row.feature);
+        for (const key of Object.keys(parseAttributes(row.attributes_json))) attributeKeys.add(key);
+        for (const call of extractToolCalls(row)) tools.add(call.tool_name);
+      }
+      return {
+        models: [...models].sort(),
+        callTypes: [...callTypes].sort(),
+        tags: [...tags].sort(),
+        finishReasons: [...finishReasons].sort(),
+        tenants: [...tenants].sort(),
+        features: [...features].sort(),
+        attributeKeys: [...attributeKeys].sort(),
+        tools: [...tools].sort(),
+      };
+    },
+    listAlerts: (limit) =>
+      [...loadAlerts()]
+        .sort((a, b) => (a.fired_at === b.fired_at ? (a.id < b.id ? 1 : -1) : a.fired_at < b.fired_at ? 1 : -1))
+        .slice(0, limit),
+    latestCursor: () => latestCursor(loadRows()),
+    listNewCalls: (since: number, filters: CallFilters, limit: number): NewCalls => {
+      const rows = loadRows();
+      const latest = latestCursor(rows);
+      // A cursor past the newest row means the rows were rewritten or cleared; resume from the newest.
+      if (since >= latest) return { rows: [], cursor: latest };
+
+      let index = rows.findIndex((row, position) => cursorOf(row, position) > since);
+      const matched: LlmCallTableRow[] = [];
+      let cursor = since;
+      while (index < rows.length && matched.length < limit) {
+        const row = rows[index];
+        cursor = cursorOf(row, index);
+        index += 1;
+        if (matchesFilters(row, filters)) matched.push(row);
+      }
+      return { rows: matched, cursor };
+    },
+    listToolCalls: (filters) => {
+      const ids = new Set(loadRows().filter((row) => matchesFilters(row, filters)).map((row) => row.id));
+      return buildToolCallRows(loadRows())
+        .filter((call) => ids.has(call.call_id))
+        .sort(compareToolCalls);
+    },
+    getToolCalls: (callId) => buildToolCallRows(loadRows()).filter((call) => call.call_id === callId),
+  };
+}
+
+export function matchesFilters(row: LlmCallTableRow, filters: CallFilters): boolean {
+  if (filters.model && row.model_id !== filters.model) return false;
+  if (filters.callType && (row.call_type ?? 'text') !== filters.callType) return false;
+  if (filters.tag && !parseTags(row.tags_json).includes(filters.tag)) return false;
+  if (filters.finishReason && row.finish_reason !== filters.finishReason) return false;
+  if (filters.traceId && row.trace_id !== filters.traceId) return false;
+  if (filters.sessionId && row.session_id !== filters.sessionId) return false;
+  if (filters.userId && row.user_id !== filters.userId) return false;
+  if (filters.tenantId && row.tenant_id !== filters.tenantId) return false;
+  if (filters.feature && row.feature !== filters.feature) return false;
+  if (filters.attribute && !matchesAttribute(row, filters.attribute)) return false;
+  if (filters.replayOf && row.replay_of !== filters.replayOf) return false;
+  if (filters.toolName && !extractToolCalls(row).some((call) => call.tool_name === filters.toolName)) return false;
+  if (filters.status === 'error' && !isErrorRow(row)) return false;
+  if (filters.status === 'success' && isErrorRow(row)) return false;
+  if (filters.from && row.timestamp < filters.from.toISOString()) return false;
+  if (filters.to && row.timestamp > filters.to.toISOString()) return false;
+  if (filters.minTokens != null && !(row.total_tokens != null && row.total_tokens >= filters.minTokens)) return false;
+  if (filters.maxTokens != null && !(row.total_tokens != null && row.total_tokens <= filters.maxTokens)) return false;
+  if (filters.minLatencyMs != null && !(row.latency_ms != null && row.latency_ms >= filters.minLatencyMs)) return false;
+  if (filters.maxLatencyMs != null && !(row.latency_ms != null && row.latency_ms <= filters.maxLatencyMs)) return false;
+  if (filters.search) {
+    const haystack = `${row.input_text ?? ''}\n${row.content_json ?? ''}`.toLowerCase();
+    const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.every((term) => haystack.includes(term))) return false;
+  }
+  return true;
+}
+
+function matchesAttribute(row: LlmCallTableRow, filter: AttributeFilter): boolean {
+  const attributes = parseAttributes(row.attributes_json);
+  if (!Object.prototype.hasOwnProperty.call(attributes, filter.key)) return false;
+  return filter.value == null || attributes[filter.key] === filter.value;
+}
+
+function compareToolCalls(a: ToolCallTableRow, b: ToolCallTableRow): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? -1 : 1;
+  if (a.call_id !== b.call_id) return a.call_id < b.call_id ? -1 : 1;
+  return a.position - b.position;
+}
+
+function compareNewestFirst(a: LlmCallTableRow, b: LlmCallTableRow): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? 1 : -1;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+}
+
+/** Negative when the row is older than the cursor, positive when newer. */
+function compareToCursor(row: LlmCallTableRow, cursor: PageCursor): number {
+  if (row.timestamp !== cursor.timestamp) return row.timestamp < cursor.timestamp ? -1 : 1;
+  if (row.id === cursor.id) return 0;
+  return row.id < cursor.id ? -1 : 1;
+}
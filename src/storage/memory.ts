@@ -0,0 +1,47 @@
+import type { StoredAlert } from '../alerts.js';
+import type { LLMCallRow } from '../types.js';
+import { createInMemoryReader } from './memory-reader.js';
+import { toAlertTableRow, toRecordedRow } from './serialize.js';
+import type { LlmCallTableRow, StorageAdapter } from './types.js';
+
+export type MemoryStorage = StorageAdapter & {
+  /** Rows in the order they were saved, as passed to `save`. */
+  rows: LLMCallRow[];
+  /** The same rows in the `llm_calls` column layout. */
+  tableRows: LlmCallTableRow[];
+  /** Alerts fired by the logger, oldest first. */
+  alerts: StoredAlert[];
+  clear: () => void;
+};
+
+/** Keeps rows in process memory; intended for tests and short-lived scripts. */
+export function createMemoryStorage(): MemoryStorage {
+  const rows: LLMCallRow[] = [];
+  const tableRows: LlmCallTableRow[] = [];
+  const alerts: StoredAlert[] = [];
+
+  return {
+    kind: 'memory',
+    target: 'memory',
+    rows,
+    tableRows,
+    alerts,
+    save: async (row) => {
+      rows.push(row);
+      tableRows.push(toRecordedRow(row));
+    },
+    saveBatch: async (batch) => {
+      rows.push(...batch);
+      tableRows.push(...batch.map((row) => toRecordedRow(row)));
+    },
+    saveAlert: async (alert) => {
+      alerts.push(alert);
+    },
+    clear: () => {
+      rows.length = 0;
+      tableRows.length = 0;
+      alerts.length = 0;
+    },
+    createReader: () => createInMemoryReader(() => tableRows, () => alerts.map(toAlertTableRow)),
+  };
+}
@@ -0,0 +1,130 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LLMCallRow } from '../types.js';
+import { createInMemoryReader } from './memory-reader.js';
+import { toAlertTableRow, toRecordedRow } from './serialize.js';
+import type { AlertTableRow, LlmCallTableRow, StorageAdapter, UsageReader } from './types.js';
+
+export type NdjsonStorageOptions = {
+  dirPath: string;
+  fileName?: string;               // default llm-usage.ndjson
+};
+
+/**
+ * Appends one `llm_calls`-shaped JSON object per line. Writes are chained so
+ * lines from concurrent saves never interleave. Alerts go to a sibling
+ * `*.alerts.ndjson` file in the `llm_alerts` layout.
+ */
+export function createNdjsonStorage(options: NdjsonStorageOptions): StorageAdapter {
+  fs.mkdirSync(options.dirPath, { recursive: true });
+  const filePath = path.join(options.dirPath, options.fileName ?? 'llm-usage.ndjson');
+
+  let pending: Promise<void> = Promise.resolve();
+  const append = (text: string, target = filePath) => {
+    const write = pending.then(() => fs.promises.appendFile(target, text, 'utf8'));
+    // Keep the chain alive after a failed write; the caller still sees the error.
+    pending = write.catch(() => undefined);
+    return write;
+  };
+  const toLine = (row: LLMCallRow) => `${JSON.stringify(toRecordedRow(row))}\n`;
+
+  return {
+    kind: 'ndjson',
+    target: filePath,
+    save: (row) => append(toLine(row)),
+    saveBatch: (rows) => append(rows.map(toLine).join('')),
+    saveAlert: (alert) => append(`${JSON.stringify(toAlertTableRow(alert))}\n`, alertsFilePath(filePath)),
+    close: () => pending,
+    createReader: () => openNdjsonReader(filePath),
+  };
+}
+
+/**
+ * Reads an NDJSON usage file and its alerts file, re-parsing each whenever
+ * its size or modification time changes. Malformed lines are skipped.
+ * A row's change cursor is the byte offset just past its line, which stays
+ * put when a partial line completes or a corrupt one is skipped, unlike the
+ * row's position among the parsed rows.
+ */
+export function openNdjsonReader(filePath: string): UsageReader {
+  const absolutePath = path.resolve(filePath);
+  const offsets = new WeakMap<LlmCallTableRow, number>();
+  const loadRows = cachedFileLoader(absolutePath, (text) => {
+    const rows: LlmCallTableRow[] = [];
+    let offset = 0;
+    for (const line of text.split('\n')) {
+      offset += Buffer.byteLength(line) + 1;
+      const row = parseNdjsonLine(line);
+      if (!row) continue;
+      rows.push(row);
+      offsets.set(row, offset);
+    }
+    return rows;
+  });
+  const loadAlerts = cachedFileLoader(alertsFilePath(absolutePath), parseAlertsNdjson);
+  return createInMemoryReader(loadRows, loadAlerts, (row) => offsets.get(row) ?? 0);
+}
+
+export function parseNdjson(text: string): LlmCallTableRow[] {
+  return parseLines(text, isCallRecord);
+}
+
+/** Parses one line of an NDJSON usage file; blank, malformed and partial lines give `null`. */
+export function parseNdjsonLine(line: string): LlmCallTableRow | null {
+  return parseLine(line, isCallRecord);
+}
+
+function isCallRecord(parsed: any): boolean {
+  return typeof parsed.id === 'string' && typeof parsed.timestamp === 'string';
+}
+
+function parseAlertsNdjson(text: string): AlertTableRow[] {
+  return parseLines(text, (parsed) => typeof parsed.id === 'string' && typeof parsed.fired_at === 'string');
+}
+
+/** `llm-usage.ndjson` -> `llm-usage.alerts.ndjson` */
+function alertsFilePath(filePath: string): string {
+  const extension = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - extension.length)}.alerts${extension || '.ndjson'}`;
+}
+
+function parseLines<T>(text: string, isValid: (parsed: any) => boolean): T[] {
+  const rows: T[] = [];
+  for (const line of text.split('\n')) {
+    const row = parseLine<T>(line, isValid);
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+function parseLine<T>(line: string, isValid: (parsed: any) => boolean): T | null {
+  if (!line.trim()) return null;
+  try {
+    const parsed = JSON.parse(line);
+    return parsed && isValid(parsed) ? (parsed as T) : null;
+  } catch {
+    // skip partially written or corrupt lines
+    return null;
+  }
+}
+
+/** Re-parses the file whenever its size or modification time changes; a missing file reads as empty. */
+function cachedFileLoader<T>(filePath: string, parse: (text: string) => T[]): () => T[] {
+  let cached: T[] = [];
+  let cachedSignature = '';
+
+  return () => {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      return [];
+    }
+    const signature = `${stats.size}:${stats.mtimeMs}`;
+    if (signature === cachedSignature) return cached;
+
+    cached = parse(fs.readFileSync(filePath, 'utf8'));
+    cachedSignature = signature;
+    return cached;
+  };
+}
@@ -0,0 +1,22 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { openNdjsonReader } from './ndjson.js';
+import { openSqliteReader } from './sqlite-reader.js';
+import type { UsageReader } from './types.js';
+
+/** True for file names the NDJSON backend writes or reads (`.ndjson`, `.jsonl`). */
+export function isNdjsonPath(filePath: string): boolean {
+  return /\.(ndjson|jsonl)$/i.test(filePath);
+}
+
+/** Opens a usage file for reading, choosing the backend from its extension; anything else is read as SQLite. */
+export function openUsageReader(filePath: string): UsageReader {
+  const absolutePath = path.resolve(filePath);
+  if (isNdjsonPath(absolutePath)) {
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`No NDJSON usage file found at "${absolutePath}"`);
+    }
+    return openNdjsonReader(absolutePath);
+  }
+  return openSqliteReader(absolutePath);
+}
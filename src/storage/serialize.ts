@@ -0,0 +1,196 @@
+import crypto from 'node:crypto';
+import type { StoredAlert } from '../alerts.js';
+import { parseTags, safeParseJson } from '../dashboard/format.js';
+import { isCallType } from '../model-calls.js';
+import { isCaptureLevel } from '../sampling.js';
+import type { LLMCallRow } from '../types.js';
+import type { RecordedToolActivity } from './tool-calls.js';
+import type { AlertTableRow, LlmCallTableRow } from './types.js';
+
+export const TABLE_COLUMNS: (keyof LlmCallTableRow)[] = [
+  'id',
+  'timestamp', 'model_id', 'call_type', 'tags_json', 'capture_level',
+  'trace_id', 'span_id', 'parent_span_id', 'session_id', 'user_id',
+  'tenant_id', 'feature', 'attributes_json',
+  'input_text', 'prompt_json', 'input_count',
+  'content_json', 'dimensions',
+  'input_tokens', 'output_tokens', 'total_tokens', 'cached_input_tokens', 'reasoning_tokens',
+  'cost_usd',
+  'request_tools_json',
+  'temperature', 'top_p', 'max_output_tokens', 'call_options_json',
+  'finish_reason', 'latency_ms', 'time_to_first_token_ms', 'part_timings_json', 'warnings_json', 'request_id', 'response_id', 'headers_json', 'meta_json', 'error_json',
+  'redactions_json', 'replay_of',
+];
+
+export const ALERT_COLUMNS: (keyof AlertTableRow)[] = [
+  'id', 'fired_at', 'rule', 'kind', 'dedupe_key', 'message', 'value', 'threshold', 'details_json', 'deliveries_json',
+];
+
+export function generateCallId(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/** Converts a middleware row into the `llm_calls` column layout shared by every backend. */
+export function toTableRow(row: LLMCallRow, id = generateCallId()): LlmCallTableRow {
+  return {
+    id,
+    timestamp: row.timestamp.toISOString(),
+    model_id: toText(row.modelId),
+    call_type: row.callType ?? 'text',
+    tags_json: row.tags ? safeJsonStringify(row.tags) : null,
+    capture_level: toText(row.captureLevel),
+    trace_id: toText(row.traceId),
+    span_id: toText(row.spanId),
+    parent_span_id: toText(row.parentSpanId),
+    session_id: toText(row.sessionId),
+    user_id: toText(row.userId),
+    tenant_id: toText(row.tenantId),
+    feature: toText(row.feature),
+    attributes_json: row.attributes && Object.keys(row.attributes).length ? safeJsonStringify(row.attributes) : null,
+
+    input_text: toText(row.inputText),
+    prompt_json: safeJsonStringify(row.promptJson),
+    input_count: toNumber(row.inputCount),
+
+    content_json: safeJsonStringify(row.contentJson),
+    dimensions: toNumber(row.dimensions),
+
+    input_tokens: toNumber(row.inputTokens),
+    output_tokens: toNumber(row.outputTokens),
+    total_tokens: toNumber(row.totalTokens),
+    cached_input_tokens: toNumber(row.cachedInputTokens),
+    reasoning_tokens: toNumber(row.reasoningTokens),
+
+    cost_usd: toNumber(row.costUsd),
+
+    request_tools_json: safeJsonStringify(row.requestToolsJson),
+
+    temperature: toNumber(row.temperature),
+    top_p: toNumber(row.topP),
+    max_output_tokens: toNumber(row.maxOutputTokens),
+    call_options_json: safeJsonStringify(row.callOptionsJson),
+
+    finish_reason: toText(row.finishReason),
+    latency_ms: toNumber(row.latencyMs),
+    time_to_first_token_ms: toNumber(row.timeToFirstTokenMs),
+    part_timings_json: row.partTimings?.length ? safeJsonStringify(row.partTimings) : null,
+    warnings_json: row.warnings ? safeJsonStringify(row.warnings) : null,
+    request_id: toText(row.requestId),
+    response_id: toText(row.responseId),
+    headers_json: row.headersJson ? safeJsonStringify(row.headersJson) : null,
+    meta_json: row.meta ? safeJsonStringify(row.meta) : null,
+    error_json: row.error ? safeJsonStringify(row.error) : null,
+    redactions_json: row.redactions?.length ? safeJsonStringify(row.redactions) : null,
+    replay_of: toText(row.replayOf),
+  };
+}
+
+/**
+ * `toTableRow` plus `tool_calls_json`, for the NDJSON and in-memory backends:
+ * they have no `llm_tool_calls` table, so the tool calls and results the
+ * logger recorded before sampling are kept on the row.
+ */
+export function toRecordedRow(row: LLMCallRow, id?: string): LlmCallTableRow {
+  const hasTools = Boolean(row.toolCalls?.length || row.toolResults?.length);
+  const activity: RecordedToolActivity = { calls: row.toolCalls ?? [], results: row.toolResults ?? [] };
+  return { ...toTableRow(row, id), tool_calls_json: hasTools ? safeJsonStringify(activity) : null };
+}
+
+/** Reads a stored row back into the middleware's shape, parsing its JSON columns. */
+export function fromTableRow(row: LlmCallTableRow): LLMCallRow & { id: string } {
+  return {
+    id: row.id,
+    timestamp: new Date(row.timestamp),
+    modelId: row.model_id,
+    callType: isCallType(row.call_type) ? row.call_type : 'text',
+    tags: row.tags_json ? parseTags(row.tags_json) : null,
+    captureLevel: isCaptureLevel(row.capture_level) ? row.capture_level : null,
+    traceId: row.trace_id,
+    spanId: row.span_id,
+    parentSpanId: row.parent_span_id,
+    sessionId: row.session_id,
+    userId: row.user_id,
+    tenantId: row.tenant_id,
+    feature: row.feature,
+    attributes: safeParseJson(row.attributes_json) as Record<string, string> | null,
+
+    inputText: row.input_text,
+    promptJson: safeParseJson(row.prompt_json) as any[] | null,
+    inputCount: row.input_count ?? null,
+
+    contentJson: safeParseJson(row.content_json),
+    dimensions: row.dimensions ?? null,
+
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    totalTokens: row.total_tokens,
+    cachedInputTokens: row.cached_input_tokens,
+    reasoningTokens: row.reasoning_tokens,
+
+    costUsd: row.cost_usd,
+
+    requestToolsJson: safeParseJson(row.request_tools_json),
+
+    temperature: row.temperature,
+    topP: row.top_p,
+    maxOutputTokens: row.max_output_tokens,
+    callOptionsJson: safeParseJson(row.call_options_json) as Record<string, any> | null,
+
+    finishReason: row.finish_reason,
+    latencyMs: row.latency_ms,
+    timeToFirstTokenMs: row.time_to_first_token_ms,
+    partTimings: safeParseJson(row.part_timings_json) as LLMCallRow['partTimings'],
+    warnings: safeParseJson(row.warnings_json) as any[] | null,
+    requestId: row.request_id,
+    responseId: row.response_id,
+    headersJson: safeParseJson(row.headers_json),
+    meta: safeParseJson(row.meta_json) as Record<string, any> | null,
+    error: safeParseJson(row.error_json) as LLMCallRow['error'],
+    redactions: safeParseJson(row.redactions_json) as LLMCallRow['redactions'],
+    replayOf: row.replay_of,
+  };
+}
+
+export function toAlertTableRow(alert: StoredAlert): AlertTableRow {
+  return {
+    id: alert.id,
+    fired_at: alert.firedAt,
+    rule: alert.rule,
+    kind: alert.kind,
+    dedupe_key: alert.key,
+    message: alert.message,
+    value: toNumber(alert.value),
+    threshold: toNumber(alert.threshold),
+    details_json: safeJsonStringify(alert.details),
+    deliveries_json: alert.deliveries.length ? safeJsonStringify(alert.deliveries) : null,
+  };
+}
+
+export function safeJsonStringify(value: any): string | null {
+  if (value == null || value === undefined) return null;
+  try {
+    return JSON.stringify(value);
+  } catch (err) {
+    process.emitWarning(
+      err instanceof Error ? err.message : String(err),
+      {
+        code: 'LLM_USAGE_JSON_ENCODE',
+        detail: 'Falling back to string representation while persisting usage row.',
+      }
+    );
+    return String(value);
+  }
+}
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? value : String(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
@@ -0,0 +1,240 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { assertSchemaCurrent } from '../migrations.js';
+import { appendCursorCondition, buildRollupWhereClause, buildWhereClause, type CallFilters } from '../dashboard/filters.js';
+import { LATENCY_BUCKETS_SECONDS, groupMetricsRows } from '../dashboard/metrics.js';
+import type {
+  AlertTableRow,
+  AnalyticsRow,
+  CallListRow,
+  CallPage,
+  CallPageRequest,
+  LlmCallTableRow,
+  MetricsGroup,
+  NewCalls,
+  ToolCallTableRow,
+  UsageReader,
+  UsageSum,
+} from './types.js';
+
+/**
+ * `UsageReader` over the `llm_calls` table. Expects a database at the
+ * current schema version (see `assertSchemaCurrent`).
+ */
+export function createSqliteReader(db: Database.Database): UsageReader {
+  const listColumns = 'id, timestamp, model_id, call_type, tags_json, input_text, input_count, input_tokens, output_tokens, total_tokens, cached_input_tokens, reasoning_tokens, cost_usd, finish_reason, error_json, latency_ms, trace_id, session_id, user_id, tenant_id, feature';
+  const analyticsColumns = 'timestamp, model_id, call_type, tags_json, finish_reason, error_json, input_tokens, output_tokens, total_tokens, cached_input_tokens, reasoning_tokens, input_count, cost_usd, latency_ms, user_id, tenant_id, feature, attributes_json';
+  // Rollups in the analytics row shape; '' stands for no value in llm_daily_usage.
+  const rollupColumns = "day || 'T00:00:00.000Z' AS timestamp, NULLIF(model_id, '') AS model_id, call_type, NULLIF(tags_json, '') AS tags_json, NULLIF(finish_reason, '') AS finish_reason, NULL AS error_json, input_tokens, output_tokens, total_tokens, cached_input_tokens, reasoning_tokens, input_count, cost_usd, NULL AS latency_ms, NULLIF(user_id, '') AS user_id, NULLIF(tenant_id, '') AS tenant_id, NULLIF(feature, '') AS feature, NULL AS attributes_json, calls, errors";
+
+  const detailStatement = db.prepare(
+    'SELECT * FROM llm_calls WHERE id = ?'
+  );
+  const traceStatement = db.prepare(
+    'SELECT * FROM llm_calls WHERE trace_id = ? ORDER BY timestamp ASC, id ASC'
+  );
+  const modelsStatement = db.prepare(
+    'SELECT DISTINCT model_id FROM llm_calls WHERE model_id IS NOT NULL ORDER BY model_id'
+  );
+  const callTypesStatement = db.prepare(
+    'SELECT DISTINCT call_type FROM llm_calls ORDER BY call_type'
+  ).pluck();
+  const tagsStatement = db.prepare(
+    "SELECT DISTINCT tag.value AS tag FROM llm_calls, json_each(CASE WHEN json_valid(llm_calls.tags_json) THEN llm_calls.tags_json ELSE '[]' END) AS tag ORDER BY tag.value"
+  );
+  const toolCallsStatement = db.prepare(
+    'SELECT * FROM llm_tool_calls WHERE call_id = ? ORDER BY position'
+  );
+  const alertsStatement = db.prepare(
+    'SELECT * FROM llm_alerts ORDER BY fired_at DESC, id DESC LIMIT ?'
+  );
+  const latestCursorStatement = db.prepare('SELECT COALESCE(MAX(rowid), 0) FROM llm_calls').pluck();
+  const finishReasonsStatement = db.prepare(
+    'SELECT DISTINCT finish_reason FROM llm_calls WHERE finish_reason IS NOT NULL ORDER BY finish_reason'
+  );
+  const metricsStatement = db.prepare(`
+    SELECT model_id, finish_reason, (finish_reason IS 'error' OR error_json IS NOT NULL) AS is_error, tags_json,
+      COUNT(*) AS calls,
+      TOTAL(input_tokens) AS input_tokens,
+      TOTAL(output_tokens) AS output_tokens,
+      TOTAL(cached_input_tokens) AS cached_input_tokens,
+      TOTAL(reasoning_tokens) AS reasoning_tokens,
+      TOTAL(cost_usd) AS cost_usd,
+      TOTAL(CASE WHEN cost_usd IS NULL THEN input_tokens END) AS unpriced_input_tokens,
+      TOTAL(CASE WHEN cost_usd IS NULL THEN output_tokens END) AS unpriced_output_tokens,
+      TOTAL(CASE WHEN cost_usd IS NULL THEN MIN(IFNULL(cached_input_tokens, 0), IFNULL(input_tokens, 0)) END) AS unpriced_cached_input_tokens,
+      TOTAL(CASE WHEN cost_usd IS NULL THEN MIN(IFNULL(reasoning_tokens, 0), IFNULL(output_tokens, 0)) END) AS unpriced_reasoning_tokens,
+      COUNT(latency_ms) AS latency_count,
+      TOTAL(latency_ms) AS latency_ms,
+      ${LATENCY_BUCKETS_SECONDS.map((bound, index) => `TOTAL(latency_ms <= ${bound * 1000}) AS bucket_${index}`).join(', ')}
+    FROM llm_calls
+    GROUP BY model_id, finish_reason, is_error, tags_json
+  `);
+  const tenantsStatement = db.prepare(
+    'SELECT DISTINCT tenant_id FROM llm_calls WHERE tenant_id IS NOT NULL ORDER BY tenant_id'
+  ).pluck();
+  const featuresStatement = db.prepare(
+    'SELECT DISTINCT feature FROM llm_calls WHERE feature IS NOT NULL ORDER BY feature'
+  ).pluck();
+  const attributeKeysStatement = db.prepare(
+    "SELECT DISTINCT attribute.key FROM llm_calls, json_each(CASE WHEN json_valid(llm_calls.attributes_json) THEN llm_calls.attributes_json ELSE '{}' END) AS attribute ORDER BY attribute.key"
+  ).pluck();
+  const toolNamesStatement = db.prepare(
+    'SELECT DISTINCT tool_name FROM llm_tool_calls ORDER BY tool_name'
+  ).pluck();
+
+  const listCalls = (filters: CallFilters, page: CallPageRequest): CallPage => {
+    const { pageSize, before } = page;
+    const after = before ? null : page.after;
+
+    const where = buildWhereClause(filters);
+    const paged = before
+      ? appendCursorCondition(where, before, 'older')
+      : after
+        ? appendCursorCondition(where, after, 'newer')
+        : where;
+    // Paging towards newer rows walks the index in ascending order and flips the page afterwards.
+    const order = after ? 'ASC' : 'DESC';
+
+    const fetched = db
+      .prepare(`SELECT ${listColumns} FROM llm_calls ${paged.sql} ORDER BY timestamp ${order}, id ${order} LIMIT ?`)
+      .all(...paged.params, pageSize + 1) as CallListRow[];
+    const hasMore = fetched.length > pageSize;
+    const rows = fetched.slice(0, pageSize);
+    if (after) rows.reverse();
+
+    const { total } = db
+      .prepare(`SELECT COUNT(*) AS total FROM llm_calls ${where.sql}`)
+      .get(...where.params) as { total: number };
+
+    return {
+      rows,
+      total,
+      hasOlder: after ? true : hasMore,
+      hasNewer: before ? true : after ? hasMore : false,
+    };
+  };
+
+  const listAnalyticsRows = (filters: CallFilters): AnalyticsRow[] => {
+    const where = buildWhereClause(filters);
+    return db
+      .prepare(`SELECT ${analyticsColumns} FROM llm_calls ${where.sql}`)
+      .all(...where.params) as AnalyticsRow[];
+  };
+
+  const listRolledUpRows = (filters: CallFilters): AnalyticsRow[] => {
+    const where = buildRollupWhereClause(filters);
+    if (!where) return [];
+    return db
+      .prepare(`SELECT ${rollupColumns} FROM llm_daily_usage ${where.sql}`)
+      .all(...where.params) as AnalyticsRow[];
+  };
+
+  const iterateCalls = (filters: CallFilters): Iterable<LlmCallTableRow> => {
+    const where = buildWhereClause(filters);
+    return db
+      .prepare(`SELECT * FROM llm_calls ${where.sql} ORDER BY timestamp ASC, id ASC`)
+      .iterate(...where.params) as Iterable<LlmCallTableRow>;
+  };
+
+  const sumUsage = (filters: CallFilters): UsageSum => {
+    const where = buildWhereClause(filters);
+    const row = db
+      .prepare(`SELECT COUNT(*) AS calls, SUM(total_tokens) AS totalTokens, SUM(cost_usd) AS costUsd FROM llm_calls ${where.sql}`)
+      .get(...where.params) as { calls: number; totalTokens: number | null; costUsd: number | null };
+    const sum = { calls: row.calls, totalTokens: row.totalTokens ?? 0, costUsd: row.costUsd ?? 0 };
+
+    const rollupWhere = buildRollupWhereClause(filters);
+    if (rollupWhere) {
+      const rolledUp = db
+        .prepare(`SELECT TOTAL(calls) AS calls, TOTAL(total_tokens) AS totalTokens, TOTAL(cost_usd) AS costUsd FROM llm_daily_usage ${rollupWhere.sql}`)
+        .get(...rollupWhere.params) as UsageSum;
+      sum.calls += rolledUp.calls;
+      sum.totalTokens += rolledUp.totalTokens;
+      sum.costUsd += rolledUp.costUsd;
+    }
+    return sum;
+  };
+
+  const metricsGroups = (): MetricsGroup[] =>
+    (metricsStatement.all() as Record<string, any>[]).map((row) => {
+      // The bucket columns come back in bound order.
+      const group: Record<string, any> = { latency_buckets: [] };
+      for (const [column, value] of Object.entries(row)) {
+        if (column.startsWith('bucket_')) group.latency_buckets.push(value);
+        else group[column] = value;
+      }
+      return group as MetricsGroup;
+    }).concat(groupMetricsRows(listRolledUpRows({})));
+
+  // The rowid grows with every insert, including rows written by other processes, and
+  // unlike timestamps it never goes backwards when a slow call finishes late.
+  const listNewCalls = (since: number, filters: CallFilters, limit: number): NewCalls => {
+    const latest = latestCursorStatement.get() as number;
+    if (latest <= since) return { rows: [], cursor: latest };
+
+    const where = buildWhereClause(filters);
+    const condition = 'llm_calls.rowid > ? AND llm_calls.rowid <= ?';
+    const rows = db
+      .prepare(
+        `SELECT llm_calls.rowid AS cursor, ${listColumns} FROM llm_calls ${where.sql ? `${where.sql} AND ${condition}` : `WHERE ${condition}`} ORDER BY llm_calls.rowid ASC LIMIT ?`
+      )
+      .all(...where.params, since, latest, limit) as (CallListRow & { cursor: number })[];
+    // A full page may stop short of `latest`; resume after its last row instead.
+    const cursor = rows.length === limit ? rows[rows.length - 1].cursor : latest;
+    return { rows: rows.map(({ cursor: _cursor, ...row }) => row), cursor };
+  };
+
+  const listToolCalls = (filters: CallFilters): ToolCallTableRow[] => {
+    const where = buildWhereClause(filters);
+    return db
+      .prepare(
+        `SELECT * FROM llm_tool_calls WHERE call_id IN (SELECT id FROM llm_calls ${where.sql}) ORDER BY timestamp ASC, call_id ASC, position ASC`
+      )
+      .all(...where.params) as ToolCallTableRow[];
+  };
+
+  return {
+    listCalls,
+    getCall: (id) => detailStatement.get(id) as LlmCallTableRow | undefined,
+    listTrace: (traceId) => traceStatement.all(traceId) as LlmCallTableRow[],
+    listAnalyticsRows,
+    listRolledUpRows,
+    iterateCalls,
+    sumUsage,
+    metricsGroups,
+    facets: () => ({
+      models: (modelsStatement.all() as { model_id: string }[]).map((row) => row.model_id),
+      callTypes: callTypesStatement.all() as string[],
+      tags: (tagsStatement.all() as { tag: string }[]).map((row) => row.tag),
+      finishReasons: (finishReasonsStatement.all() as { finish_reason: string }[]).map((row) => row.finish_reason),
+      tenants: tenantsStatement.all() as string[],
+      features: featuresStatement.all() as string[],
+      attributeKeys: attributeKeysStatement.all() as string[],
+      tools: toolNamesStatement.all() as string[],
+    }),
+    listAlerts: (limit) => alertsStatement.all(limit) as AlertTableRow[],
+    latestCursor: () => latestCursorStatement.get() as number,
+    listNewCalls,
+    listToolCalls,
+    getToolCalls: (callId) => toolCallsStatement.all(callId) as ToolCallTableRow[],
+  };
+}
+
+/** Opens a database read-only for browsing, refusing schema versions this release cannot read. */
+export function openSqliteReader(dbPath: string): UsageReader {
+  const absoluteDbPath = path.resolve(dbPath);
+  if (!fs.existsSync(absoluteDbPath)) {
+    throw new Error(`No SQLite database found at "${absoluteDbPath}"`);
+  }
+
+  const db = new Database(absoluteDbPath, { readonly: true, fileMustExist: true });
+  try {
+    assertSchemaCurrent(db, absoluteDbPath);
+    return { ...createSqliteReader(db), close: () => db.close() };
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+}
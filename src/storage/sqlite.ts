@@ -0,0 +1,26 @@
+import { createSqliteHandle } from '../db.js';
+import { pruneDatabase } from '../retention.js';
+import { createSqliteReader } from './sqlite-reader.js';
+import type { StorageAdapter } from './types.js';
+
+export type SqliteStorageOptions = {
+  dirPath: string;
+  fileName?: string;               // default llm-usage.db
+  wal?: boolean;                   // default true
+};
+
+export function createSqliteStorage(options: SqliteStorageOptions): StorageAdapter {
+  const handle = createSqliteHandle(options.dirPath, options.fileName ?? 'llm-usage.db', options.wal ?? true);
+  return {
+    kind: 'sqlite',
+    target: handle.dbPath,
+    save: handle.save,
+    saveBatch: handle.saveBatch,
+    saveAlert: handle.saveAlert,
+    close: () => {
+      if (handle.db.open) handle.db.close();
+    },
+    createReader: () => createSqliteReader(handle.db),
+    prune: (pruneOptions) => pruneDatabase(handle.db, pruneOptions),
+  };
+}
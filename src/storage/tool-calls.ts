@@ -0,0 +1,247 @@
+import type Database from 'better-sqlite3';
+import { safeParseJson, truncate } from '../dashboard/format.js';
+import { safeJsonStringify } from './serialize.js';
+import type { LLMCallRow } from '../types.js';
+import type { LlmCallTableRow, ToolCallOutcome, ToolCallTableRow } from './types.js';
+
+/** A tool call the model made, as it appears in the response content. */
+export type ToolCallRecord = {
+  toolCallId: string | null;
+  toolName: string;
+  providerExecuted: boolean;
+  inputJson: string | null;        // the arguments as JSON; null below the `full` capture level
+  inputBytes: number | null;       // size of the arguments as JSON, kept at every capture level
+};
+
+/** A tool result seen in a call's prompt or response content. */
+export type ToolResultRecord = {
+  toolCallId: string;
+  toolName: string | null;
+  outcome: ToolCallOutcome;
+  errorText: string | null;
+};
+
+export const TOOL_CALL_COLUMNS: (keyof ToolCallTableRow)[] = [
+  'call_id', 'position', 'timestamp', 'model_id', 'tool_call_id', 'tool_name', 'provider_executed',
+  'input_json', 'input_bytes', 'outcome', 'error_text', 'result_call_id',
+];
+
+const ERROR_TEXT_LENGTH = 500;
+
+/** The columns tool calls and their results are read from. */
+export type ToolCallSourceRow = Pick<LlmCallTableRow, 'id' | 'timestamp' | 'model_id' | 'prompt_json' | 'content_json' | 'tool_calls_json'>;
+
+/** Tool calls and results as kept in `tool_calls_json`. */
+export type RecordedToolActivity = {
+  calls: ToolCallRecord[];
+  results: ToolResultRecord[];
+};
+
+/**
+ * The tool calls of a stored call, in the order the model made them: those
+ * the logger recorded in `tool_calls_json`, or else those in its response
+ * content.
+ */
+export function extractToolCalls(row: Omit<ToolCallSourceRow, 'prompt_json'>): ToolCallTableRow[] {
+  return toToolCallRows(row, readRecordedActivity(row)?.calls ?? readToolCalls(safeParseJson(row.content_json)));
+}
+
+/** The tool calls in response content parts, in the order the model made them. */
+export function readToolCalls(content: unknown): ToolCallRecord[] {
+  if (!Array.isArray(content)) return [];
+  return content
+    .filter((part) => part?.type === 'tool-call' && typeof part.toolName === 'string')
+    .map((part) => {
+      const inputJson = part.input === undefined ? null : safeJsonStringify(part.input);
+      return {
+        toolCallId: typeof part.toolCallId === 'string' ? part.toolCallId : null,
+        toolName: part.toolName,
+        providerExecuted: Boolean(part.providerExecuted),
+        inputJson,
+        inputBytes: inputJson == null ? null : Buffer.byteLength(inputJson, 'utf8'),
+      };
+    });
+}
+
+/**
+ * Tool results a call carries: `tool-result` parts in its prompt, which
+ * report tools run between steps, and in its content, which report tools the
+ * provider ran. Results with an `error-text` or `error-json` output (or an
+ * `isError` flag) count as failures. Results recorded in `tool_calls_json`
+ * take precedence.
+ */
+export function extractToolResults(row: Pick<ToolCallSourceRow, 'prompt_json' | 'content_json' | 'tool_calls_json'>): ToolResultRecord[] {
+  return readRecordedActivity(row)?.results ?? readToolResults(safeParseJson(row.prompt_json), safeParseJson(row.content_json));
+}
+
+/** The tool results in prompt messages and response content parts; see `extractToolResults`. */
+export function readToolResults(prompt: unknown, content: unknown): ToolResultRecord[] {
+  const results = new Map<string, ToolResultRecord>();
+  const visit = (part: any) => {
+    if (part?.type !== 'tool-result' || typeof part.toolCallId !== 'string') return;
+    results.set(part.toolCallId, {
+      toolCallId: part.toolCallId,
+      toolName: typeof part.toolName === 'string' ? part.toolName : null,
+      ...readOutcome(part),
+    });
+  };
+
+  if (Array.isArray(prompt)) {
+    for (const message of prompt) {
+      if (Array.isArray(message?.content)) message.content.forEach(visit);
+    }
+  }
+  if (Array.isArray(content)) content.forEach(visit);
+  return [...results.values()];
+}
+
+/**
+ * The tool calls and results of a row about to be saved, read from its full
+ * prompt and content so they survive sampling and redaction. Rows that
+ * already carry them are left as they are.
+ */
+export function withToolActivity(row: LLMCallRow): LLMCallRow {
+  return {
+    ...row,
+    toolCalls: row.toolCalls ?? readToolCalls(row.contentJson),
+    toolResults: row.toolResults ?? readToolResults(row.promptJson, row.contentJson),
+  };
+}
+
+/**
+ * Brings tool call arguments and result errors in line with a redacted row:
+ * they are copies of its content and prompt, so they are taken from the
+ * redacted values, and cleared where those were dropped.
+ */
+export function redactToolActivity(row: LLMCallRow): LLMCallRow {
+  if (!row.toolCalls?.length && !row.toolResults?.length) return row;
+  const inputs = readToolCalls(row.contentJson).map((call) => call.inputJson);
+  const errors = new Map(
+    readToolResults(row.promptJson, row.contentJson).map((result) => [result.toolCallId, result.errorText])
+  );
+  return {
+    ...row,
+    toolCalls: row.toolCalls?.map((call, index) => ({ ...call, inputJson: call.inputJson == null ? null : inputs[index] ?? null })),
+    toolResults: row.toolResults?.map((result) => ({
+      ...result,
+      errorText: result.errorText == null ? null : errors.get(result.toolCallId) ?? null,
+    })),
+  };
+}
+
+/**
+ * Tool calls of rows held in memory, with outcomes resolved the way the
+ * SQLite writer does. Rows are expected in the order they were saved.
+ */
+export function buildToolCallRows(rows: ToolCallSourceRow[]): ToolCallTableRow[] {
+  const calls: ToolCallTableRow[] = [];
+  for (const row of rows) {
+    calls.push(...extractToolCalls(row));
+    for (const result of extractToolResults(row)) {
+      const match = findUnresolved(calls, result, row.timestamp);
+      if (match) resolve(match, result, row.id);
+    }
+  }
+  return calls;
+}
+
+/**
+ * Inserts a saved row's tool calls into `llm_tool_calls` and records the
+ * outcomes of the tool results it carries. Each result resolves the newest
+ * unresolved tool call with its id at or before the row, so results that
+ * later steps send again are not counted twice. Tool calls and results the
+ * logger recorded before sampling are used when given; otherwise they are
+ * read from the stored prompt and content.
+ */
+export function createToolCallWriter(
+  db: Database.Database
+): (row: ToolCallSourceRow, recorded?: Pick<LLMCallRow, 'toolCalls' | 'toolResults'>) => void {
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO llm_tool_calls (${TOOL_CALL_COLUMNS.join(',')}) VALUES (${TOOL_CALL_COLUMNS.map((column) => `@${column}`).join(',')})`
+  );
+  const update = db.prepare(`
+    UPDATE llm_tool_calls SET outcome = @outcome, error_text = @error_text, result_call_id = @result_call_id
+    WHERE rowid = (
+      SELECT rowid FROM llm_tool_calls
+      WHERE tool_call_id = @tool_call_id
+        AND (@tool_name IS NULL OR tool_name = @tool_name)
+        AND outcome IS NULL
+        AND timestamp <= @timestamp
+      ORDER BY timestamp DESC
+      LIMIT 1
+    )
+  `);
+
+  return (row, recorded) => {
+    const calls = recorded?.toolCalls ? toToolCallRows(row, recorded.toolCalls) : extractToolCalls(row);
+    for (const call of calls) insert.run(call);
+    for (const result of recorded?.toolResults ?? extractToolResults(row)) {
+      update.run({
+        outcome: result.outcome,
+        error_text: result.errorText,
+        result_call_id: row.id,
+        tool_call_id: result.toolCallId,
+        tool_name: result.toolName,
+        timestamp: row.timestamp,
+      });
+    }
+  };
+}
+
+function readRecordedActivity(row: Pick<ToolCallSourceRow, 'tool_calls_json'>): RecordedToolActivity | null {
+  const parsed = safeParseJson(row.tool_calls_json ?? null) as Partial<RecordedToolActivity> | null;
+  if (!parsed || typeof parsed !== 'object') return null;
+  return {
+    calls: Array.isArray(parsed.calls) ? parsed.calls : [],
+    results: Array.isArray(parsed.results) ? parsed.results : [],
+  };
+}
+
+function toToolCallRows(row: Omit<ToolCallSourceRow, 'prompt_json' | 'content_json'>, calls: ToolCallRecord[]): ToolCallTableRow[] {
+  return calls.map((call, position) => ({
+    call_id: row.id,
+    position,
+    timestamp: row.timestamp,
+    model_id: row.model_id,
+    tool_call_id: call.toolCallId,
+    tool_name: call.toolName,
+    provider_executed: call.providerExecuted ? 1 : 0,
+    input_json: call.inputJson,
+    input_bytes: call.inputBytes,
+    outcome: null,
+    error_text: null,
+    result_call_id: null,
+  }));
+}
+
+function readOutcome(part: any): Pick<ToolResultRecord, 'outcome' | 'errorText'> {
+  const output = part.output;
+  if (output?.type === 'error-text' || output?.type === 'error-json') {
+    return { outcome: 'error', errorText: truncate(describe(output.value), ERROR_TEXT_LENGTH) };
+  }
+  if (part.isError === true) {
+    return { outcome: 'error', errorText: truncate(describe(part.result ?? output), ERROR_TEXT_LENGTH) };
+  }
+  return { outcome: 'success', errorText: null };
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') return value;
+  return safeJsonStringify(value) ?? '';
+}
+
+function findUnresolved(calls: ToolCallTableRow[], result: ToolResultRecord, timestamp: string): ToolCallTableRow | null {
+  let match: ToolCallTableRow | null = null;
+  for (const call of calls) {
+    if (call.tool_call_id !== result.toolCallId || call.outcome != null || call.timestamp > timestamp) continue;
+    if (result.toolName != null && call.tool_name !== result.toolName) continue;
+    if (!match || call.timestamp >= match.timestamp) match = call;
+  }
+  return match;
+}
+
+function resolve(call: ToolCallTableRow, result: ToolResultRecord, resultCallId: string) {
+  call.outcome = result.outcome;
+  call.error_text = result.errorText;
+  call.result_call_id = resultCallId;
+}
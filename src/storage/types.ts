@@ -0,0 +1,258 @@
+import type { StoredAlert } from '../alerts.js';
+import type { CallFilters, PageCursor } from '../dashboard/filters.js';
+import type { PruneOptions, PruneResult } from '../retention.js';
+import type { LLMCallRow, SaveFn } from '../types.js';
+
+/** Raw `llm_calls` row as stored by `createSqliteHandle`. */
+export type LlmCallTableRow = {
+  id: string;
+  timestamp: string;
+  model_id: string | null;
+  call_type: string | null;        // 'text', 'embedding', 'image' or 'speech'; absent from older NDJSON rows (text)
+  tags_json: string | null;
+  capture_level: string | null;    // NULL for rows saved before capture levels existed (full)
+  trace_id: string | null;
+  span_id: string | null;
+  parent_span_id: string | null;
+  session_id: string | null;
+  user_id: string | null;
+  tenant_id: string | null;
+  feature: string | null;
+  attributes_json: string | null;  // JSON object of string values
+  input_text: string | null;
+  prompt_json: string | null;
+  input_count: number | null;      // values embedded, images requested or characters of speech text
+  content_json: string | null;
+  dimensions: number | null;       // embedding vector length
+  input_tokens: number | null;
+  output_tokens: number | null;
+  total_tokens: number | null;
+  cached_input_tokens: number | null;
+  reasoning_tokens: number | null;
+  cost_usd: number | null;
+  request_tools_json: string | null;
+  temperature: number | null;
+  top_p: number | null;
+  max_output_tokens: number | null;
+  call_options_json: string | null;
+  finish_reason: string | null;
+  latency_ms: number | null;
+  time_to_first_token_ms: number | null;
+  part_timings_json: string | null;
+  warnings_json: string | null;
+  request_id: string | null;
+  response_id: string | null;
+  headers_json: string | null;
+  meta_json: string | null;
+  error_json: string | null;
+  redactions_json: string | null;
+  replay_of: string | null;
+  tool_calls_json?: string | null; // NDJSON and in-memory rows only: tool calls and results recorded before sampling
+};
+
+/** Raw `llm_alerts` row: one fired alert and how it was delivered. */
+export type AlertTableRow = {
+  id: string;
+  fired_at: string;
+  rule: string;
+  kind: string;
+  dedupe_key: string;
+  message: string;
+  value: number | null;
+  threshold: number | null;
+  details_json: string | null;
+  deliveries_json: string | null;
+};
+
+/**
+ * Raw `llm_tool_calls` row: one tool call a model asked for, taken from its
+ * call's response content. The outcome is filled in when a later call's
+ * prompt (or, for provider-executed tools, the same response) carries the
+ * tool's result.
+ */
+export type ToolCallTableRow = {
+  call_id: string;                 // llm_calls.id of the call that made the tool call
+  position: number;                // order among that call's tool calls, from 0
+  timestamp: string;               // the call's timestamp
+  model_id: string | null;
+  tool_call_id: string | null;
+  tool_name: string;
+  provider_executed: number;       // 1 when the provider ran the tool itself
+  input_json: string | null;       // arguments as JSON; cleared when retention strips content_json
+  input_bytes: number | null;      // size of the arguments in UTF-8 bytes, kept after stripping
+  outcome: ToolCallOutcome | null; // NULL until a result is seen
+  error_text: string | null;
+  result_call_id: string | null;   // llm_calls.id of the call whose prompt or content carried the result
+};
+
+export type ToolCallOutcome = 'success' | 'error';
+
+/** Raw `llm_daily_usage` row: the totals of one day's calls removed by retention. Key columns use '' for none. */
+export type DailyUsageTableRow = {
+  day: string;                     // YYYY-MM-DD, UTC
+  model_id: string;
+  call_type: string;
+  finish_reason: string;
+  tags_json: string;
+  tenant_id: string;
+  user_id: string;
+  feature: string;
+  calls: number;
+  errors: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cached_input_tokens: number;
+  reasoning_tokens: number;
+  input_count: number;
+  cost_usd: number;
+  latency_ms_sum: number;
+};
+
+export type CallListRow = Pick<
+  LlmCallTableRow,
+  | 'id'
+  | 'timestamp'
+  | 'model_id'
+  | 'call_type'
+  | 'tags_json'
+  | 'input_text'
+  | 'input_count'
+  | 'input_tokens'
+  | 'output_tokens'
+  | 'total_tokens'
+  | 'cached_input_tokens'
+  | 'reasoning_tokens'
+  | 'cost_usd'
+  | 'finish_reason'
+  | 'error_json'
+  | 'latency_ms'
+  | 'trace_id'
+  | 'session_id'
+  | 'user_id'
+  | 'tenant_id'
+  | 'feature'
+>;
+
+export type AnalyticsRow = Pick<
+  LlmCallTableRow,
+  | 'timestamp'
+  | 'model_id'
+  | 'call_type'
+  | 'tags_json'
+  | 'finish_reason'
+  | 'error_json'
+  | 'input_tokens'
+  | 'output_tokens'
+  | 'total_tokens'
+  | 'cached_input_tokens'
+  | 'reasoning_tokens'
+  | 'input_count'
+  | 'cost_usd'
+  | 'latency_ms'
+  | 'user_id'
+  | 'tenant_id'
+  | 'feature'
+  | 'attributes_json'
+> & {
+  // Only set on rows rolled up from `llm_daily_usage`, which stand for this many deleted calls.
+  calls?: number;
+  errors?: number;
+};
+
+export type CallPageRequest = {
+  pageSize: number;
+  before?: PageCursor | null;      // page towards older rows
+  after?: PageCursor | null;       // page towards newer rows
+};
+
+export type CallPage = {
+  rows: CallListRow[];             // newest first
+  total: number;
+  hasOlder: boolean;
+  hasNewer: boolean;
+};
+
+export type UsageSum = {
+  calls: number;
+  totalTokens: number;
+  costUsd: number;                 // stored costs only; rows without one count as 0
+};
+
+/**
+ * Calls that share a model, finish reason, status and tag set, summed for
+ * the Prometheus endpoint. Token sums prefixed `unpriced_` cover only rows
+ * saved without a cost, with cached input and reasoning tokens capped per
+ * row as `estimateCost` does, so their cost can be estimated per group.
+ */
+export type MetricsGroup = {
+  model_id: string | null;
+  finish_reason: string | null;
+  is_error: number;                // 1 when the calls failed
+  tags_json: string | null;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cached_input_tokens: number;
+  reasoning_tokens: number;
+  cost_usd: number;                // stored costs only
+  unpriced_input_tokens: number;
+  unpriced_output_tokens: number;
+  unpriced_cached_input_tokens: number;
+  unpriced_reasoning_tokens: number;
+  latency_count: number;           // calls with a latency
+  latency_ms: number;              // sum of their latencies
+  latency_buckets: number[];       // calls at or under each LATENCY_BUCKETS_SECONDS bound
+};
+
+/** Rows saved after a change cursor; `cursor` is the value to poll from next. */
+export type NewCalls = {
+  rows: CallListRow[];             // oldest first
+  cursor: number;
+};
+
+export type CallFacets = {
+  models: string[];
+  callTypes: string[];             // call types present, e.g. ['embedding', 'text']
+  tags: string[];
+  finishReasons: string[];
+  tenants: string[];
+  features: string[];
+  attributeKeys: string[];
+  tools: string[];                 // names of tools the model has called
+};
+
+/** Read side of a storage backend, as used by the dashboard. */
+export type UsageReader = {
+  listCalls: (filters: CallFilters, page: CallPageRequest) => CallPage;
+  getCall: (id: string) => LlmCallTableRow | undefined;
+  listTrace: (traceId: string) => LlmCallTableRow[];  // oldest first
+  listAnalyticsRows: (filters: CallFilters) => AnalyticsRow[];
+  listRolledUpRows: (filters: CallFilters) => AnalyticsRow[];  // retention rollups, one per day and key; [] when a filter can't apply
+  iterateCalls: (filters: CallFilters) => Iterable<LlmCallTableRow>;  // every column, oldest first
+  sumUsage: (filters: CallFilters) => UsageSum;  // includes rolled-up calls
+  metricsGroups: () => MetricsGroup[];  // every stored and rolled-up call, aggregated for /metrics
+  facets: () => CallFacets;
+  listAlerts: (limit: number) => AlertTableRow[];  // newest first
+  latestCursor: () => number;      // change cursor of the most recently saved row, 0 when empty
+  listNewCalls: (since: number, filters: CallFilters, limit: number) => NewCalls;
+  listToolCalls: (filters: CallFilters) => ToolCallTableRow[];  // made by the matching calls, oldest first
+  getToolCalls: (callId: string) => ToolCallTableRow[];         // in the order the model made them
+  close?: () => void;
+};
+
+/**
+ * A place usage rows are written to. `save` follows the `SaveFn` contract;
+ * backends that can answer queries also expose `createReader` so the
+ * dashboard can browse them.
+ */
+export type StorageAdapter = {
+  kind: string;                    // e.g. 'sqlite', 'ndjson', 'memory'
+  target: string;                  // file path or other description of where rows go
+  save: SaveFn;
+  saveBatch?: (rows: LLMCallRow[]) => Promise<void>;  // used by the write queue when present
+  saveAlert?: (alert: StoredAlert) => Promise<void>;  // alert history; alerts are only delivered without it
+  close?: () => Promise<void> | void;
+  createReader?: () => UsageReader;
+  prune?: (options: PruneOptions) => Promise<PruneResult>;  // required for LoggerOptions.retention
+};
@@ -0,0 +1,212 @@
+export type PartTiming = {
+  type: string;                    // content part type, e.g. 'text', 'reasoning', 'tool-call'
+  id: string | null;               // stream part id or tool call id
+  startMs: number;                 // milliseconds after the call started
+  endMs: number | null;            // null when the stream stopped before the part ended
+};
+
+export type StreamCapture = {
+  observe: (chunk: any) => void;
+  fail: (error: unknown) => void;
+  /** Content parts in the shape `wrapGenerate` stores, tool-call input parsed. */
+  content: () => any[];
+  partTimings: () => PartTiming[];
+  timeToFirstTokenMs: () => number | null;
+  finish: () => any | null;        // the `finish` stream part, once seen
+  warnings: () => any[] | null;
+  responseMetadata: () => { id?: string; modelId?: string } | null;
+  error: () => unknown;
+};
+
+type OpenPart = {
+  part: any;
+  timing: PartTiming;
+};
+
+const FIRST_TOKEN_PARTS = new Set(['text-delta', 'reasoning-delta', 'tool-input-delta', 'tool-call']);
+
+/**
+ * Rebuilds the structured content array of a streamed call from its
+ * `LanguageModelV2StreamPart`s, recording when each part started and ended.
+ */
+export function createStreamCapture(started: number): StreamCapture {
+  const parts: any[] = [];
+  const timings: PartTiming[] = [];
+  const open = new Map<string, OpenPart>();
+  let firstTokenAt: number | null = null;
+  let finishPart: any = null;
+  let warnings: any[] | null = null;
+  let metadata: { id?: string; modelId?: string } | null = null;
+  let error: unknown = null;
+
+  const elapsed = () => Date.now() - started;
+
+  const startPart = (key: string, part: any, id: string | null): OpenPart => {
+    const entry = { part, timing: { type: part.type, id, startMs: elapsed(), endMs: null } };
+    parts.push(part);
+    timings.push(entry.timing);
+    open.set(key, entry);
+    return entry;
+  };
+
+  const endPart = (key: string) => {
+    const entry = open.get(key);
+    if (!entry) return;
+    entry.timing.endMs = elapsed();
+    open.delete(key);
+  };
+
+  const addPart = (part: any, id: string | null) => {
+    const now = elapsed();
+    parts.push(part);
+    timings.push({ type: part.type, id, startMs: now, endMs: now });
+  };
+
+  // Deltas may arrive without a start part from lenient providers.
+  const openText = (type: 'text' | 'reasoning', id: string) =>
+    open.get(`${type}:${id}`) ?? startPart(`${type}:${id}`, { type, text: '' }, id);
+
+  const observe = (chunk: any) => {
+    if (!chunk || typeof chunk.type !== 'string') return;
+    if (firstTokenAt == null && FIRST_TOKEN_PARTS.has(chunk.type)) firstTokenAt = elapsed();
+
+    switch (chunk.type) {
+      case 'stream-start':
+        warnings = chunk.warnings ?? null;
+        break;
+      case 'response-metadata':
+        metadata = { id: chunk.id, modelId: chunk.modelId };
+        break;
+
+      case 'text-start':
+      case 'reasoning-start': {
+        const type = chunk.type === 'text-start' ? 'text' : 'reasoning';
+        const entry = openText(type, chunk.id);
+        if (chunk.providerMetadata) entry.part.providerMetadata = chunk.providerMetadata;
+        break;
+      }
+      case 'text-delta':
+      case 'reasoning-delta': {
+        const type = chunk.type === 'text-delta' ? 'text' : 'reasoning';
+        openText(type, chunk.id).part.text += chunk.delta ?? '';
+        break;
+      }
+      case 'text-end':
+      case 'reasoning-end': {
+        const type = chunk.type === 'text-end' ? 'text' : 'reasoning';
+        const entry = open.get(`${type}:${chunk.id}`);
+        if (entry && chunk.providerMetadata) entry.part.providerMetadata = chunk.providerMetadata;
+        endPart(`${type}:${chunk.id}`);
+        break;
+      }
+
+      case 'tool-input-start':
+        startPart(
+          `tool:${chunk.id}`,
+          { type: 'tool-call', toolCallId: chunk.id, toolName: chunk.toolName, input: '', ...providerExecuted(chunk) },
+          chunk.id
+        );
+        break;
+      case 'tool-input-delta': {
+        const entry = open.get(`tool:${chunk.id}`);
+        if (entry) entry.part.input += chunk.delta ?? '';
+        break;
+      }
+      case 'tool-input-end':
+        // The tool call stays open until its `tool-call` part delivers the final input.
+        break;
+      case 'tool-call': {
+        const key = `tool:${chunk.toolCallId}`;
+        const entry = open.get(key);
+        if (entry) {
+          entry.part.toolName = chunk.toolName;
+          entry.part.input = chunk.input;
+          Object.assign(entry.part, providerExecuted(chunk));
+          endPart(key);
+        } else {
+          addPart(
+            { type: 'tool-call', toolCallId: chunk.toolCallId, toolName: chunk.toolName, input: chunk.input, ...providerExecuted(chunk) },
+            chunk.toolCallId
+          );
+        }
+        break;
+      }
+      case 'tool-result':
+        addPart(stripUndefined({ ...chunk }), chunk.toolCallId ?? null);
+        break;
+      case 'source':
+        addPart(stripUndefined({ ...chunk }), chunk.id ?? null);
+        break;
+      case 'file':
+        addPart({ type: 'file', mediaType: chunk.mediaType, data: encodeFileData(chunk.data) }, null);
+        break;
+
+      case 'finish':
+        finishPart = chunk;
+        break;
+      case 'error':
+        error = chunk.error;
+        break;
+    }
+  };
+
+  return {
+    observe,
+    fail: (err) => {
+      error = err;
+    },
+    content: () => normaliseContent(parts),
+    partTimings: () => timings.map((timing) => ({ ...timing })),
+    timeToFirstTokenMs: () => firstTokenAt,
+    finish: () => finishPart,
+    warnings: () => warnings,
+    responseMetadata: () => metadata,
+    error: () => error,
+  };
+}
+
+/**
+ * Copies content parts for storage: tool-call input is parsed from its JSON
+ * string when possible, and binary file data is base64 encoded.
+ */
+export function normaliseContent(parts: any[]): any[] {
+  return parts.map((part) => {
+    if (part?.type === 'tool-call' && typeof part.input === 'string') {
+      return { ...part, input: parseToolInput(part.input) };
+    }
+    if (part?.type === 'file') {
+      return { ...part, data: encodeFileData(part.data) };
+    }
+    return part;
+  });
+}
+
+/** `{ message, stack }` for anything thrown or reported through an `error` stream part. */
+export function toErrorPayload(err: unknown): { message: string; stack?: string } {
+  if (err instanceof Error) return { message: err.message, stack: err.stack };
+  if (err && typeof err === 'object' && 'message' in err) return { message: String((err as any).message) };
+  return { message: typeof err === 'string' ? err : JSON.stringify(err) ?? String(err) };
+}
+
+function parseToolInput(input: string): unknown {
+  if (!input.trim()) return {};
+  try {
+    return JSON.parse(input);
+  } catch {
+    // Incomplete input from an interrupted stream is kept as text.
+    return input;
+  }
+}
+
+function encodeFileData(data: unknown): unknown {
+  if (data instanceof Uint8Array) return Buffer.from(data).toString('base64');
+  return data;
+}
+
+function providerExecuted(chunk: any): { providerExecuted?: boolean } {
+  return chunk.providerExecuted == null ? {} : { providerExecuted: chunk.providerExecuted };
+}
+
+function stripUndefined<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
@@ -0,0 +1,105 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import crypto from 'node:crypto';
+
+export type TraceContext = {
+  traceId: string;                 // 32 hex chars, shared by every call of one run
+  spanId: string;                  // 16 hex chars
+  parentSpanId?: string | null;
+  sessionId?: string | null;       // groups several runs, e.g. one chat conversation
+};
+
+export type TraceContextInput = Partial<TraceContext> & {
+  traceparent?: string;            // W3C trace context header value
+};
+
+export type Traceparent = {
+  version: string;
+  traceId: string;
+  parentId: string;
+  sampled: boolean;
+};
+
+/** Trace columns stored on each row. */
+export type CallTrace = {
+  traceId: string | null;
+  spanId: string;
+  parentSpanId: string | null;
+  sessionId: string | null;
+};
+
+const contextStorage = new AsyncLocalStorage<TraceContext>();
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Runs `fn` inside a trace context; model calls made within it are logged as
+ * child spans of the context's span. Missing ids are taken from the
+ * `traceparent`, then from the enclosing context, and otherwise generated,
+ * so nested runs form a tree.
+ */
+export function withTraceContext<T>(input: TraceContextInput, fn: () => T): T {
+  const parent = contextStorage.getStore();
+  const traceparent = input.traceparent ? parseTraceparent(input.traceparent) : null;
+
+  const context: TraceContext = {
+    traceId: input.traceId ?? traceparent?.traceId ?? parent?.traceId ?? generateTraceId(),
+    spanId: input.spanId ?? generateSpanId(),
+    parentSpanId: input.parentSpanId ?? traceparent?.parentId ?? parent?.spanId ?? null,
+    sessionId: input.sessionId ?? parent?.sessionId ?? null,
+  };
+  return contextStorage.run(context, fn);
+}
+
+export function getTraceContext(): TraceContext | undefined {
+  return contextStorage.getStore();
+}
+
+export function parseTraceparent(value: string): Traceparent | null {
+  const match = TRACEPARENT_PATTERN.exec(value.trim().toLowerCase());
+  if (!match) return null;
+  const [, version, traceId, parentId, flags] = match;
+  // Version ff and all-zero ids are invalid per the W3C spec.
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(parentId)) return null;
+  return { version, traceId, parentId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: Pick<TraceContext, 'traceId' | 'spanId'>, sampled = true): string {
+  return `00-${context.traceId}-${context.spanId}-${sampled ? '01' : '00'}`;
+}
+
+export function generateTraceId(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+export function generateSpanId(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+/**
+ * Trace ids for a single model call. Sources in order of precedence:
+ * explicit ids in `providerOptions.usageLogger`, a `traceparent` there or in
+ * the request headers, then the active `withTraceContext` context. Each call
+ * gets its own span id unless one is supplied.
+ */
+export function resolveCallTrace(callOptions: any, headers?: Record<string, string | undefined>): CallTrace {
+  const context = getTraceContext();
+  const traceparentValue = readString(callOptions?.traceparent) ?? readHeader(headers, 'traceparent');
+  const traceparent = traceparentValue ? parseTraceparent(traceparentValue) : null;
+
+  return {
+    traceId: readString(callOptions?.traceId) ?? traceparent?.traceId ?? context?.traceId ?? null,
+    spanId: readString(callOptions?.spanId) ?? generateSpanId(),
+    parentSpanId: readString(callOptions?.parentSpanId) ?? traceparent?.parentId ?? context?.spanId ?? null,
+    sessionId: readString(callOptions?.sessionId) ?? context?.sessionId ?? null,
+  };
+}
+
+function readHeader(headers: Record<string, string | undefined> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find((candidate) => candidate.toLowerCase() === name);
+  return key ? readString(headers[key]) : undefined;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
@@ -0,0 +1,289 @@
+import { once } from 'node:events';
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import type { Writable } from 'node:stream';
+import Database from 'better-sqlite3';
+import type { CallFilters } from './dashboard/filters.js';
+import { createSqliteHandle } from './db.js';
+import { checkSchema, tableExists } from './migrations.js';
+import { ROLLUP_KEY_COLUMNS, ROLLUP_SUM_COLUMNS, ROLLUP_UPSERT } from './retention.js';
+import { isNdjsonPath } from './storage/open.js';
+import { parseNdjsonLine } from './storage/ndjson.js';
+import { TABLE_COLUMNS } from './storage/serialize.js';
+import { createToolCallWriter, TOOL_CALL_COLUMNS } from './storage/tool-calls.js';
+import type { DailyUsageTableRow, LlmCallTableRow, ToolCallTableRow, UsageReader } from './storage/types.js';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'columnar';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'columnar'];
+
+/** Prompt and response columns left out by `includeBodies: false`. */
+export const BODY_COLUMNS: (keyof LlmCallTableRow)[] = ['input_text', 'prompt_json', 'content_json'];
+
+export type ExportOptions = {
+  format: ExportFormat;
+  filters?: CallFilters;
+  includeBodies?: boolean;         // default true
+};
+
+export type ImportResult = {
+  source: string;
+  read: number;
+  imported: number;
+  skipped: number;                 // ids already present in the target
+  rolledUpCalls: number;           // calls from the source's daily rollups added to the target's
+};
+
+/** A row read from an import source, with its `llm_tool_calls` rows when the source is a SQLite database that has them. */
+type SourceRow = {
+  row: Partial<LlmCallTableRow>;
+  toolCalls?: ToolCallTableRow[];
+};
+
+const IMPORT_BATCH_SIZE = 500;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Writes the matching `llm_calls` rows to `output`, oldest first, and
+ * resolves with the number of rows written. NDJSON output uses the same
+ * layout as the NDJSON backend, so it can be imported or browsed directly.
+ * Columnar JSON is `{ columns, rowCount, data: { [column]: values[] } }`.
+ * The stream is left open. Calls removed by retention only survive in the
+ * daily rollups, which have no rows to export; a warning gives their count.
+ */
+export async function exportCalls(reader: UsageReader, output: Writable, options: ExportOptions): Promise<number> {
+  const columns = options.includeBodies === false
+    ? TABLE_COLUMNS.filter((column) => !BODY_COLUMNS.includes(column))
+    : TABLE_COLUMNS;
+  const write = async (chunk: string) => {
+    if (!output.write(chunk)) await once(output, 'drain');
+  };
+  const rolledUpCalls = reader.listRolledUpRows(options.filters ?? {}).reduce((sum, row) => sum + (row.calls ?? 0), 0);
+  if (rolledUpCalls) {
+    process.emitWarning(`${rolledUpCalls} matching calls were removed by retention and are only kept as daily rollups; they are not exported.`, {
+      code: 'LLM_USAGE_EXPORT_ROLLUPS',
+    });
+  }
+
+  let count = 0;
+  if (options.format === 'columnar') {
+    const data = Object.fromEntries(columns.map((column) => [column, [] as unknown[]]));
+    for (const row of reader.iterateCalls(options.filters ?? {})) {
+      for (const column of columns) data[column].push(row[column] ?? null);
+      count += 1;
+    }
+    await write(`${JSON.stringify({ columns, rowCount: count, data })}\n`);
+    return count;
+  }
+
+  if (options.format === 'csv') await write(`${columns.join(',')}\n`);
+  for (const row of reader.iterateCalls(options.filters ?? {})) {
+    await write(options.format === 'csv' ? toCsvLine(row, columns) : toNdjsonLine(row, columns));
+    count += 1;
+  }
+  return count;
+}
+
+/**
+ * Merges NDJSON exports and other SQLite usage databases into the database
+ * at `targetDbPath`, creating and migrating it as needed. Rows whose `id` is
+ * already present are skipped, so importing the same source twice is safe.
+ * Any other rejected row stops the import with an error; batches written
+ * before it are kept. Tool calls are copied from a SQLite source's
+ * `llm_tool_calls`, so calls sampled or stripped there keep them, and its
+ * daily rollups are added to the target's, see `createRollupMerger`.
+ */
+export async function importCalls(targetDbPath: string, sources: string[]): Promise<ImportResult[]> {
+  const absoluteTarget = path.resolve(targetDbPath);
+  const handle = createSqliteHandle(path.dirname(absoluteTarget), path.basename(absoluteTarget));
+  try {
+    // Only a duplicate id is skipped; NOT NULL and other constraint failures still throw.
+    const insert = handle.db.prepare(
+      `INSERT INTO llm_calls (${TABLE_COLUMNS.join(',')}) VALUES (${TABLE_COLUMNS.map((column) => `@${column}`).join(',')}) ON CONFLICT(id) DO NOTHING`
+    );
+    const insertToolCall = handle.db.prepare(
+      `INSERT OR IGNORE INTO llm_tool_calls (${TOOL_CALL_COLUMNS.join(',')}) VALUES (${TOOL_CALL_COLUMNS.map((column) => `@${column}`).join(',')})`
+    );
+    const writeToolCalls = createToolCallWriter(handle.db);
+    const mergeRollups = createRollupMerger(handle.db);
+    const insertMany = handle.db.transaction((entries: SourceRow[]) => {
+      let inserted = 0;
+      for (const entry of entries) {
+        const row = toImportRow(entry.row);
+        let changes: number;
+        try {
+          changes = insert.run(row).changes;
+        } catch (err) {
+          throw new Error(`Cannot import call "${row.id}": ${err instanceof Error ? err.message : String(err)}`);
+        }
+        if (!changes) continue;
+        if (entry.toolCalls) {
+          for (const call of entry.toolCalls) insertToolCall.run(call);
+        } else {
+          writeToolCalls(row);
+        }
+        inserted += 1;
+      }
+      return inserted;
+    });
+
+    const results: ImportResult[] = [];
+    for (const source of sources) {
+      const absoluteSource = path.resolve(source);
+      if (absoluteSource === absoluteTarget) {
+        throw new Error(`Cannot import "${absoluteSource}" into itself.`);
+      }
+      const result: ImportResult = { source: absoluteSource, read: 0, imported: 0, skipped: 0, rolledUpCalls: 0 };
+      let batch: SourceRow[] = [];
+      const flushBatch = () => {
+        const inserted = insertMany(batch);
+        result.imported += inserted;
+        result.skipped += batch.length - inserted;
+        batch = [];
+      };
+
+      for await (const entry of readSourceRows(absoluteSource)) {
+        batch.push(entry);
+        result.read += 1;
+        if (batch.length >= IMPORT_BATCH_SIZE) flushBatch();
+      }
+      if (batch.length) flushBatch();
+      result.rolledUpCalls = mergeRollups(absoluteSource, readSourceRollups(absoluteSource));
+      results.push(result);
+    }
+    return results;
+  } finally {
+    handle.db.close();
+  }
+}
+
+async function* readSourceRows(sourcePath: string): AsyncGenerator<SourceRow> {
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(`No usage file found at "${sourcePath}"`);
+  }
+  if (isNdjsonPath(sourcePath)) {
+    // Line by line, since exports can be larger than memory.
+    const lines = readline.createInterface({ input: fs.createReadStream(sourcePath), crlfDelay: Infinity });
+    for await (const line of lines) {
+      const row = parseNdjsonLine(line);
+      if (row) yield { row };
+    }
+    return;
+  }
+
+  // Older databases are read as they are; columns they lack are imported as NULL.
+  const db = new Database(sourcePath, { readonly: true, fileMustExist: true });
+  try {
+    const { status, version, expected } = checkSchema(db);
+    if (status === 'newer') {
+      throw new Error(
+        `Database "${sourcePath}" uses schema version ${version}, newer than the supported version ${expected}. ` +
+          'Upgrade ai-sdk-usage-insights to import it.'
+      );
+    }
+    const selectPage = db.prepare(
+      'SELECT * FROM llm_calls WHERE timestamp > @timestamp OR (timestamp = @timestamp AND id > @id) ORDER BY timestamp ASC, id ASC LIMIT @limit'
+    );
+    const selectToolCalls = tableExists(db, 'llm_tool_calls')
+      ? db.prepare('SELECT * FROM llm_tool_calls WHERE call_id IN (SELECT value FROM json_each(?)) ORDER BY call_id, position')
+      : null;
+    let after = { timestamp: '', id: '' };
+    for (;;) {
+      // A page at a time, since the connection cannot look up tool calls while a statement is iterating.
+      const rows = selectPage.all({ ...after, limit: IMPORT_BATCH_SIZE }) as Partial<LlmCallTableRow>[];
+      if (!rows.length) break;
+      const toolCalls = new Map<string, ToolCallTableRow[]>();
+      for (const call of (selectToolCalls?.all(JSON.stringify(rows.map((row) => row.id))) ?? []) as ToolCallTableRow[]) {
+        toolCalls.set(call.call_id, [...(toolCalls.get(call.call_id) ?? []), call]);
+      }
+      for (const row of rows) yield selectToolCalls ? { row, toolCalls: toolCalls.get(row.id!) ?? [] } : { row };
+      const last = rows[rows.length - 1];
+      after = { timestamp: last.timestamp!, id: last.id! };
+    }
+  } finally {
+    db.close();
+  }
+}
+
+function readSourceRollups(sourcePath: string): DailyUsageTableRow[] {
+  if (isNdjsonPath(sourcePath)) return [];
+  const db = new Database(sourcePath, { readonly: true, fileMustExist: true });
+  try {
+    if (!tableExists(db, 'llm_daily_usage')) return [];
+    return (db.prepare('SELECT * FROM llm_daily_usage').all() as Partial<DailyUsageTableRow>[]).map(toImportRollup);
+  } finally {
+    db.close();
+  }
+}
+
+function toImportRollup(row: Partial<DailyUsageTableRow>): DailyUsageTableRow {
+  return {
+    ...Object.fromEntries(ROLLUP_KEY_COLUMNS.map((column) => [column, row[column] ?? ''])),
+    ...Object.fromEntries(ROLLUP_SUM_COLUMNS.map((column) => [column, row[column] ?? 0])),
+    // Rollups written before call types were recorded only hold language model calls.
+    call_type: row.call_type ?? 'text',
+  } as DailyUsageTableRow;
+}
+
+/**
+ * Adds a source's daily rollups to the target's with the upsert retention
+ * uses. What each source (by absolute path) has contributed is kept in
+ * `llm_rollup_imports`, so importing it again only adds what it rolled up
+ * since. Returns the number of calls added.
+ */
+function createRollupMerger(db: Database.Database): (source: string, rollups: DailyUsageTableRow[]) => number {
+  const columns = [...ROLLUP_KEY_COLUMNS, ...ROLLUP_SUM_COLUMNS];
+  const upsert = db.prepare(
+    `INSERT INTO llm_daily_usage (${columns.join(', ')}) VALUES (${columns.map((column) => `@${column}`).join(', ')}) ${ROLLUP_UPSERT}`
+  );
+  const selectMerged = db.prepare('SELECT * FROM llm_rollup_imports WHERE source = ?');
+  const recordMerged = db.prepare(
+    `INSERT OR REPLACE INTO llm_rollup_imports (source, ${columns.join(', ')}) VALUES (@source, ${columns.map((column) => `@${column}`).join(', ')})`
+  );
+  const keyOf = (row: DailyUsageTableRow) => JSON.stringify(ROLLUP_KEY_COLUMNS.map((column) => row[column]));
+
+  return db.transaction((source: string, rollups: DailyUsageTableRow[]) => {
+    const merged = new Map((selectMerged.all(source) as DailyUsageTableRow[]).map((row) => [keyOf(row), row]));
+    let calls = 0;
+    for (const rollup of rollups) {
+      const previous = merged.get(keyOf(rollup));
+      const added: Record<string, string | number> = { ...rollup };
+      for (const column of ROLLUP_SUM_COLUMNS) added[column] = Number(rollup[column]) - Number(previous?.[column] ?? 0);
+      if (ROLLUP_SUM_COLUMNS.every((column) => added[column] === 0)) continue;
+      upsert.run(added);
+      recordMerged.run({ ...rollup, source });
+      calls += Number(added.calls);
+    }
+    return calls;
+  });
+}
+
+function toImportRow(row: Partial<LlmCallTableRow>): LlmCallTableRow {
+  const imported = Object.fromEntries(TABLE_COLUMNS.map((column) => [column, row[column] ?? null])) as LlmCallTableRow;
+  // Sources written before call types existed only hold language model calls.
+  imported.call_type ??= 'text';
+  // NDJSON sources may carry the tool calls the logger recorded; the tool call writer prefers them to the content.
+  if (row.tool_calls_json != null) imported.tool_calls_json = row.tool_calls_json;
+  return imported;
+}
+
+function toNdjsonLine(row: LlmCallTableRow, columns: (keyof LlmCallTableRow)[]): string {
+  const line = Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+  // Rows from the NDJSON and in-memory backends keep their recorded tool calls, as those backends do.
+  if (row.tool_calls_json != null) line.tool_calls_json = row.tool_calls_json;
+  return `${JSON.stringify(line)}\n`;
+}
+
+function toCsvLine(row: LlmCallTableRow, columns: (keyof LlmCallTableRow)[]): string {
+  return `${columns.map((column) => toCsvField(row[column])).join(',')}\n`;
+}
+
+export function toCsvField(value: string | number | null | undefined): string {
+  if (value == null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,3 +1,17 @@
+import type { AlertOptions } from './alerts.js';
+import type { AttributionResolver } from './attribution.js';
+import type { BudgetOptions } from './budgets.js';
+import type { CallType } from './model-calls.js';
+import type { OtelExporterOptions } from './otel.js';
+import type { PricingTable } from './pricing.js';
+import type { RedactionHit, RedactionOptions } from './redaction.js';
+import type { RetentionOptions } from './retention.js';
+import type { CaptureLevel, SamplingOptions } from './sampling.js';
+import type { PartTiming } from './stream-capture.js';
+import type { ToolCallRecord, ToolResultRecord } from './storage/tool-calls.js';
+import type { StorageAdapter } from './storage/types.js';
+import type { WriteQueueOptions } from './write-queue.js';
+
 export type TokenUsageNormalized = {
   inputTokens?: number | null;
   outputTokens?: number | null;
@@ -9,37 +23,77 @@ export type TokenUsageNormalized = {
 export type LLMCallRow = TokenUsageNormalized & {
   timestamp: Date;
   modelId?: string | null;
+  callType?: CallType | null;      // default 'text'; set by the embedding, image and speech model wrappers
   tags?: string[] | null;
+  captureLevel?: CaptureLevel | null;  // per-call override on input; the level applied once saved
+
+  // Correlation
+  traceId?: string | null;         // shared by the calls of one run
+  spanId?: string | null;          // this call
+  parentSpanId?: string | null;    // the run or call that made this one
+  sessionId?: string | null;       // groups runs, e.g. one conversation
+  userId?: string | null;          // end user the call was made for
+
+  // Attribution
+  tenantId?: string | null;        // customer or workspace the call is billed to
+  feature?: string | null;         // product feature that made the call
+  attributes?: Record<string, string> | null;  // other key/value dimensions
 
   // Input
   inputText?: string | null;       // collated human-readable view of final input
+  promptJson?: any[] | null;       // params.prompt, the provider-independent messages, for replay
+  inputCount?: number | null;      // values embedded, images requested or characters of speech text
 
   // Output
   contentJson?: any | null;        // result.content array (reasoning + text etc.)
+  dimensions?: number | null;      // embeddings only: length of each vector
+
+  // Cost
+  costUsd?: number | null;         // estimated from the pricing registry when omitted
 
   // Tools
   requestToolsJson?: any | null;   // params.tools / request.body.tools
+  toolCalls?: ToolCallRecord[] | null;      // read from the full content before sampling and redaction
+  toolResults?: ToolResultRecord[] | null;  // read from the full prompt and content likewise
 
   // Params (common)
   temperature?: number | null;
   topP?: number | null;
   maxOutputTokens?: number | null;
+  callOptionsJson?: Record<string, any> | null;  // other call settings, e.g. toolChoice, seed, stopSequences
 
   // Misc
   finishReason?: string | null;
   latencyMs?: number | null;
+  timeToFirstTokenMs?: number | null;  // streams only: start until the first delta
+  partTimings?: PartTiming[] | null;   // streams only: when each content part started and ended
   warnings?: any[] | null;
   requestId?: string | null;       // typically from response.headers['x-request-id']
   responseId?: string | null;      // result.response.id
   headersJson?: any | null;        // response.headers
   meta?: Record<string, any> | null;
   error?: { message: string; stack?: string } | null;
+  redactions?: RedactionHit[] | null;  // redaction rules that fired on this row
+  replayOf?: string | null;        // id of the call this one replays
 };
 
 export type SaveFn = (row: LLMCallRow) => Promise<void>;
 
+export type StorageKind = 'sqlite' | 'ndjson' | 'memory';
+
 export type LoggerOptions = {
-  dirPath: string;                 // directory where the file lives
-  fileName?: string;               // defaults: sqlite -> llm-usage.db; json -> llm-usage.json
+  storage?: StorageKind | StorageAdapter;  // default 'sqlite'; pass an adapter for custom backends
+  dirPath?: string;                // directory where the file lives (required for sqlite/ndjson)
+  fileName?: string;               // defaults: sqlite -> llm-usage.db; ndjson -> llm-usage.ndjson
   sqliteWAL?: boolean;             // default true
+  writeQueue?: boolean | WriteQueueOptions;  // opt-in batched background writes, default off
+  pricing?: PricingTable;          // per-model overrides, USD per 1M tokens
+  pricingFile?: string;            // JSON file with additional/overriding prices
+  redaction?: RedactionOptions;    // scrub PII and secrets before rows are saved
+  sampling?: SamplingOptions;      // sample rate and capture levels, default: everything in full
+  budgets?: BudgetOptions;         // token and cost limits checked before each call
+  alerts?: AlertOptions;           // threshold alerts evaluated as rows are saved
+  otel?: OtelExporterOptions;      // emit GenAI spans and metrics for each saved row
+  retention?: RetentionOptions;    // periodically delete, strip and roll up old rows (SQLite only)
+  attribution?: AttributionResolver;  // user, tenant, feature and attributes for calls that don't pass them
 };
@@ -1,49 +1,322 @@
 import type { LoggerOptions, LLMCallRow, SaveFn } from './types.js';
-import { createSqliteHandle } from './db.js';
+import { createAlertMonitor } from './alerts.js';
+import { mergeAttribution, readAttribution, resolveAttribution, type AttributionResolver, type ResolvedAttribution } from './attribution.js';
+import { BudgetExceededError, createBudgetEnforcer, type BudgetEnforcer } from './budgets.js';
+import { describeModelInput, describeModelResult, interceptModelMethod, type ModelCallType } from './model-calls.js';
+import { createOtelExporter } from './otel.js';
+import { createPricingRegistry } from './pricing.js';
+import { createRedactor } from './redaction.js';
+import { scheduleRetention } from './retention.js';
+import { createStreamCapture, normaliseContent, toErrorPayload } from './stream-capture.js';
+import { resolveCallTrace, type CallTrace } from './trace-context.js';
+import { createSampler, isCaptureLevel, type CaptureLevel } from './sampling.js';
+import { createMemoryStorage } from './storage/memory.js';
+import { createNdjsonStorage } from './storage/ndjson.js';
+import { createSqliteStorage } from './storage/sqlite.js';
+import { withToolActivity } from './storage/tool-calls.js';
+import type { StorageAdapter } from './storage/types.js';
+import { createWriteQueue } from './write-queue.js';
 
 /* -------------------------- helpers: storage builder ------------------------- */
-function buildSaver(options: LoggerOptions): { save: SaveFn; targetPath: string;} {
-    const sqlite = createSqliteHandle(
-      options.dirPath,
-      options.fileName ?? 'llm-usage.db',
-      options.sqliteWAL ?? true
-    );
-    return { save: sqlite.save, targetPath: sqlite.dbPath };
+function buildStorage(options: LoggerOptions): StorageAdapter {
+    const storage = options.storage ?? 'sqlite';
+    if (typeof storage !== 'string') return storage;
+    if (storage === 'memory') return createMemoryStorage();
+
+    if (!options.dirPath) {
+      throw new Error(`dirPath is required for the "${storage}" storage backend.`);
+    }
+    if (storage === 'ndjson') {
+      return createNdjsonStorage({ dirPath: options.dirPath, fileName: options.fileName });
+    }
+    if (storage === 'sqlite') {
+      return createSqliteStorage({ dirPath: options.dirPath, fileName: options.fileName, wal: options.sqliteWAL });
+    }
+    throw new Error(`Unknown storage backend "${String(storage)}".`);
 }
 
+type Saver = {
+  save: SaveFn;
+  saveDeferred: SaveFn;            // saves on a later tick; flush and close still wait for it
+  flush: () => Promise<void>;
+  close: () => Promise<void>;
+  budgets: BudgetEnforcer | null;
+  targetPath: string;
+};
+
+function buildSaver(options: LoggerOptions): Saver {
+    const storage = buildStorage(options);
+    const pricing = createPricingRegistry({
+      prices: options.pricing,
+      pricingFile: options.pricingFile,
+    });
+    const sample = createSampler(options.sampling);
+    const reader = options.budgets || options.alerts ? storage.createReader?.() ?? null : null;
+    const budgets = options.budgets ? createBudgetEnforcer(options.budgets, reader) : null;
+    const alerts = options.alerts
+      ? createAlertMonitor(options.alerts, { pricing, reader, saveAlert: storage.saveAlert })
+      : null;
+    const redact = options.redaction ? createRedactor(options.redaction) : null;
+    const exportToOtel = options.otel ? createOtelExporter(options.otel) : null;
+    const queue = options.writeQueue
+      ? createWriteQueue(storage, options.writeQueue === true ? {} : options.writeQueue)
+      : null;
+    const write = queue ? queue.save : storage.save;
+    if (options.retention && !storage.prune) {
+      throw new Error(`The "${storage.kind}" storage backend does not support retention.`);
+    }
+    const retention = options.retention && storage.prune ? scheduleRetention(storage.prune, options.retention) : null;
+
+    // Saves still running, including the deferred ones from streams, so flush can await them.
+    const inFlight = new Set<Promise<void>>();
+    let closed = false;
+
+    const save: SaveFn = async (row) => {
+      if (closed) {
+        process.emitWarning('Usage logger is closed; dropping usage log row.', {
+          code: 'LLM_USAGE_LOGGER_CLOSED',
+        });
+        return;
+      }
+      const costUsd = row.costUsd ?? pricing.estimateCost(row.modelId, row);
+      const captured = sample(withToolActivity({ ...row, costUsd }));
+      budgets?.record(captured);
+      if (exportToOtel) {
+        try {
+          exportToOtel(captured);
+        } catch (err) {
+          process.emitWarning(err instanceof Error ? err.message : String(err), {
+            code: 'LLM_USAGE_OTEL_EXPORT_FAILURE',
+          });
+        }
+      }
+      // Alerts are delivered in the background; flush and close still wait for them.
+      if (alerts) track(alerts.observe(captured).then(() => undefined));
+      await track(write(redact ? redact(captured) : captured));
+    };
+
+    const track = async (pending: Promise<void>) => {
+      inFlight.add(pending);
+      try {
+        await pending;
+      } finally {
+        inFlight.delete(pending);
+      }
+    };
+
+    // Registered before it starts, so a flush or close right after a stream ends still waits for the row.
+    const saveDeferred: SaveFn = (row) => track(Promise.resolve().then(() => save(row)));
+
+    const flush = async () => {
+      await Promise.allSettled([...inFlight]);
+      await queue?.flush();
+    };
+
+    const close = async () => {
+      if (closed) return;
+      await flush();
+      closed = true;
+      await retention?.stop();
+      await queue?.close();
+      await storage.close?.();
+    };
+
+    return { save, saveDeferred, flush, close, budgets, targetPath: storage.target };
+}
+
+
+/* -------------------------- helpers: call options ---------------------------- */
+type CallOptions = CallTrace & ResolvedAttribution & {
+  tags?: string[];
+  captureLevel?: CaptureLevel;
+  replayOf?: string;
+};
 
-/* ------------------------------ helpers: tags -------------------------------- */
-function extractTags(params: any): string[] | undefined {
+function extractCallOptions(params: any): CallOptions {
   // Per-request metadata: pass via providerOptions at callsite
-  // e.g., providerOptions: { usageLogger: { tags: ['qbr', 'analysis'] } }
+  // e.g., providerOptions: { usageLogger: { tags: ['qbr', 'analysis'], captureLevel: 'full', sessionId: 'chat-42' } }
   const opt = params?.providerOptions?.usageLogger ?? params?.providerMetadata?.usageLogger;
-  if (!opt?.tags) return;
-  return Array.isArray(opt.tags) ? opt.tags : [String(opt.tags)];
+  const trace = resolveCallTrace(opt, params?.headers);
+  if (!opt) return trace;
+  const tags = opt.tags == null ? undefined : Array.isArray(opt.tags) ? opt.tags : [String(opt.tags)];
+  const captureLevel = isCaptureLevel(opt.captureLevel) ? opt.captureLevel : undefined;
+  const replayOf = typeof opt.replayOf === 'string' && opt.replayOf ? opt.replayOf : undefined;
+  return { ...trace, ...readAttribution(opt), tags, captureLevel, replayOf };
+}
+
+/** Call options with the attribution resolver's values filled in underneath the per-call ones. */
+async function resolveCallOptions(params: any, model: any, resolver: AttributionResolver | undefined): Promise<CallOptions> {
+  const call = extractCallOptions(params);
+  if (!resolver) return call;
+  const resolved = await resolveAttribution(resolver, { params, modelId: model?.modelId ?? null, tags: call.tags ?? [] });
+  const { userId, tenantId, feature, attributes, ...rest } = call;
+  return { ...rest, ...mergeAttribution(resolved, { userId, tenantId, feature, attributes }) };
+}
+
+// Call settings without a column of their own, kept so the call can be replayed as it was made.
+const STORED_CALL_OPTIONS = ['toolChoice', 'topK', 'stopSequences', 'presencePenalty', 'frequencyPenalty', 'seed', 'responseFormat'];
+
+// The same for embedding, image and speech calls, which are kept for inspection only.
+const STORED_MODEL_OPTIONS: Record<ModelCallType, string[]> = {
+  embedding: [],
+  image: ['n', 'size', 'aspectRatio', 'seed'],
+  speech: ['voice', 'outputFormat', 'instructions', 'speed', 'language'],
+};
+
+function pickCallOptions(params: any, keys = STORED_CALL_OPTIONS): Record<string, any> | null {
+  const picked: Record<string, any> = {};
+  for (const key of keys) {
+    if (params?.[key] != null) picked[key] = params[key];
+  }
+  const { usageLogger: _usageLogger, ...providerOptions } = params?.providerOptions ?? {};
+  if (Object.keys(providerOptions).length) picked.providerOptions = providerOptions;
+  return Object.keys(picked).length ? picked : null;
+}
+
+
+/* ------------------------------ helpers: rows -------------------------------- */
+function parseRequestBody(body: unknown): any {
+  if (typeof body !== 'string') return body ?? {};
+  try {
+    return JSON.parse(body);
+  } catch {
+    return {};
+  }
+}
+
+function buildErrorRow(params: any, model: any, call: CallOptions, err: unknown): LLMCallRow {
+  const inputPrompt = params?.prompt ?? [];
+  const inputText = inputPrompt.map((message: any) => (message.role + '\n' + (typeof message.content === 'string' ? message.content : JSON.stringify(message.content)))).join('\n');
+
+  return {
+    timestamp: new Date(),
+    modelId: model.modelId,
+    ...call,
+    inputText,
+    promptJson: params?.prompt ?? null,
+
+    contentJson: null,
+
+    inputTokens: null,
+    outputTokens: null,
+    totalTokens: null,
+    cachedInputTokens: null,
+    reasoningTokens: null,
+
+    requestToolsJson: params?.tools ?? null,
+
+    temperature: params?.temperature ?? null,
+    topP: params?.topP ?? null,
+    maxOutputTokens: params?.maxOutputTokens ?? null,
+    callOptionsJson: pickCallOptions(params),
+
+    finishReason: 'error',
+    latencyMs: null,
+    warnings: null,
+    requestId: null,
+    responseId: null,
+    headersJson: null,
+    meta: null,
+    error: toErrorPayload(err),
+  };
+}
+
+
+function buildModelRow(callType: ModelCallType, params: any, model: any, call: CallOptions): LLMCallRow {
+  return {
+    timestamp: new Date(),
+    modelId: model?.modelId ?? null,
+    callType,
+    ...call,
+    ...describeModelInput(callType, params),
+    callOptionsJson: pickCallOptions(params, STORED_MODEL_OPTIONS[callType]),
+  };
 }
 
 
 export function createUsageLoggerMiddleware(options: LoggerOptions) {
 
-  const { save } = buildSaver(options);
+  const { save, saveDeferred, flush, close, budgets } = buildSaver(options);
+
+  // Runs before the provider is called; rejected calls are logged with finish reason 'budget_exceeded'.
+  const enforceBudgets = async (model: any, call: CallOptions, buildRejectedRow: (err: unknown) => LLMCallRow) => {
+    if (!budgets) return;
+    try {
+      await budgets.check({ modelId: model.modelId, tags: call.tags, userId: call.userId, tenantId: call.tenantId });
+    } catch (err) {
+      if (err instanceof BudgetExceededError) {
+        await save({ ...buildRejectedRow(err), finishReason: 'budget_exceeded' });
+      }
+      throw err;
+    }
+  };
+
+  // Logs one call of an embedding, image or speech model the way wrapGenerate logs text generations.
+  const logModelCall = async (callType: ModelCallType, model: any, params: any, invoke: () => Promise<any>) => {
+    const started = Date.now();
+    const call = await resolveCallOptions(params, model, options.attribution);
+    const buildErrorModelRow = (err: unknown): LLMCallRow => ({
+      ...buildModelRow(callType, params, model, call),
+      finishReason: 'error',
+      error: toErrorPayload(err),
+    });
+    await enforceBudgets(model, call, buildErrorModelRow);
+
+    let result: any;
+    try {
+      result = await invoke();
+    } catch (err) {
+      await save(buildErrorModelRow(err));
+      throw err;
+    }
+    await save({
+      ...buildModelRow(callType, params, model, call),
+      ...describeModelResult(callType, result),
+      latencyMs: Date.now() - started,
+    });
+    return result;
+  };
+
   return {
 
+    /** Writes out rows buffered by the write queue and waits for pending saves. */
+    flush,
+
+    /** Flushes, then releases the storage backend (e.g. closes the SQLite handle). */
+    close,
+
+    /** Returns the embedding model with every `doEmbed` call logged, e.g. for `embed` and `embedMany`. */
+    wrapEmbeddingModel<M extends object>(model: M): M {
+      return interceptModelMethod(model, 'doEmbed', (params, invoke) => logModelCall('embedding', model, params, invoke));
+    },
+
+    /** Returns the image model with every `doGenerate` call logged, e.g. for `generateImage`. */
+    wrapImageModel<M extends object>(model: M): M {
+      return interceptModelMethod(model, 'doGenerate', (params, invoke) => logModelCall('image', model, params, invoke));
+    },
+
+    /** Returns the speech model with every `doGenerate` call logged, e.g. for `generateSpeech`. */
+    wrapSpeechModel<M extends object>(model: M): M {
+      return interceptModelMethod(model, 'doGenerate', (params, invoke) => logModelCall('speech', model, params, invoke));
+    },
+
     async wrapGenerate({ doGenerate, params, model }: { doGenerate: () => any, params: any, model: any }) {
       const started = Date.now();
-      const tags = extractTags(params);
+      const call = await resolveCallOptions(params, model, options.attribution);
+      await enforceBudgets(model, call, (err) => buildErrorRow(params, model, call, err));
 
 
       try {
         const result: any = await doGenerate();
 
-        const requestBody = (typeof result.request.body === 'string') ? JSON.parse(result.request.body) : result.request.body;
+        const requestBody = parseRequestBody(result.request?.body);
 
         const modelId = requestBody.model ?? model.modelId ?? result.response.modelId ?? null;
 
         const inputArray = requestBody.messages ?? requestBody.input ?? params.prompt ?? [];
         const inputText = inputArray.map((message: any) => JSON.stringify(message) ).join('\n');
 
-        const contentMessages = result.content ?? [];
-        const contentJson = contentMessages.map((message: any) => JSON.stringify(message)).join('\n');
+        const contentJson = normaliseContent(result.content ?? []);
 
         const inputTokens = result.usage.inputTokens;
         const outputTokens = result.usage.outputTokens;
@@ -54,8 +327,9 @@ export function createUsageLoggerMiddleware(options: LoggerOptions) {
         const row: LLMCallRow = {
           timestamp: new Date(),
           modelId: modelId ,
-          tags,
+          ...call,
           inputText,
+          promptJson: params.prompt ?? null,
           contentJson,
           inputTokens,
           outputTokens,
@@ -66,6 +340,7 @@ export function createUsageLoggerMiddleware(options: LoggerOptions) {
           temperature: params.temperature ?? null,
           topP: params.topP ?? null,
           maxOutputTokens: params.maxOutputTokens,
+          callOptionsJson: pickCallOptions(params),
 
           finishReason: result?.finishReason ?? null,
           latencyMs: Date.now() - started,
@@ -85,38 +360,7 @@ export function createUsageLoggerMiddleware(options: LoggerOptions) {
 
 
       } catch (err: any) {
-        const inputPrompt = params.prompt ?? [];
-        const inputText = inputPrompt.map((message: any) => (message.role + '\n' + (typeof message.content === 'string' ? message.content : JSON.stringify(message.content)))).join('\n');
-
-        const row: LLMCallRow = {
-          timestamp: new Date(),
-          modelId: model.modelId,
-          tags: extractTags(params),
-          inputText,
-
-          contentJson: null,
-
-          inputTokens: null,
-          outputTokens: null,
-          totalTokens: null,
-          cachedInputTokens: null,
-          reasoningTokens: null,
-
-          requestToolsJson: params?.tools ?? null,
-
-          temperature: params?.temperature ?? null,
-          topP: params?.topP ?? null,
-          maxOutputTokens: params?.maxOutputTokens ?? null,
-
-          finishReason: 'error',
-          latencyMs: null,
-          warnings: null,
-          requestId: null,
-          responseId: null,
-          headersJson: null,
-          meta: null,
-          error: { message: String(err?.message ?? err), stack: err?.stack },
-        };
+        const row = buildErrorRow(params, model, call, err);
         await save(row);
         throw err
       }
@@ -125,112 +369,106 @@ export function createUsageLoggerMiddleware(options: LoggerOptions) {
 
     async wrapStream({ doStream, params, model }: { doStream: () => any, params: any, model: any }) {
       const started = Date.now();
-      const tags = extractTags(params);
-      const { stream, request, response }: any = await doStream();
+      const call = await resolveCallOptions(params, model, options.attribution);
+      await enforceBudgets(model, call, (err) => buildErrorRow(params, model, call, err));
 
+      let streamResult: any;
+      try {
+        streamResult = await doStream();
+      } catch (err: any) {
+        await save(buildErrorRow(params, model, call, err));
+        throw err;
+      }
+      const { stream, request, response } = streamResult;
 
-      let contentJson = '';
-      let warnings: any[] | null = null;
-      let error: any = null;
+      const capture = createStreamCapture(started);
+      let logged = false;
 
-      const transformStream = new TransformStream<any>({
-        transform(chunk, controller) {
+      const logRow = () => {
+        if (logged) return;
+        logged = true;
 
-          if(chunk.type == 'reasoning-start'){
-            contentJson += 'Reasoning' + '\n'
-          }
-          if(chunk.type == 'reasoning-delta'){
-            contentJson += chunk.delta
-          }
-          if(chunk.type == 'reasoning-end'){
-            contentJson += '\n'
-          }
+        const requestBody = parseRequestBody(request?.body);
+        const finish = capture.finish();
+        const error = capture.error();
+        const usage = finish?.usage ?? {};
 
-          if(chunk.type == 'text-start'){
-            contentJson += 'Model Response' + '\n'
-          }
-          if(chunk.type == 'text-delta'){
-            contentJson += chunk.delta
-          }
-          if(chunk.type == 'reasoning-end'){
-            contentJson += '\n'
-          }
+        const inputArray = requestBody.messages ?? requestBody.input ?? params.prompt ?? [];
+        const inputText = inputArray.map((message: any) => JSON.stringify(message) ).join('\n');
 
-          if(chunk.type == 'tool-input-start'){
-            contentJson += 'Model Tool call' + '\n'
-          }
-          if(chunk.type == 'tool-input-delta'){
-            contentJson += chunk.delta
-          }
-          if(chunk.type == 'tool-input-end'){
-            contentJson += '\n'
-          }
+        const row: LLMCallRow = {
+          timestamp: new Date(),
+          modelId: requestBody.model ?? model.modelId ?? capture.responseMetadata()?.modelId ?? null,
+          ...call,
+          inputText,
+          promptJson: params.prompt ?? null,
+          contentJson: capture.content(),
+          inputTokens: usage.inputTokens ?? null,
+          outputTokens: usage.outputTokens ?? null,
+          totalTokens: usage.totalTokens ?? null,
+          cachedInputTokens: usage.cachedInputTokens ?? null,
+          reasoningTokens: usage.reasoningTokens ?? null,
+          requestToolsJson: params.tools ?? null,
 
-          if(chunk.type == 'stream-start'){
-            warnings = chunk.warnings
-          }
-          if(chunk.type == 'error'){
-            error = chunk.error
+          temperature: params.temperature ?? null,
+          topP: params.topP ?? null,
+          maxOutputTokens: params.maxOutputTokens ?? null,
+          callOptionsJson: pickCallOptions(params),
+
+          // Streams that end, fail or are cancelled without a `finish` part are marked explicitly.
+          finishReason: finish?.finishReason ?? (error ? 'error' : 'aborted'),
+          latencyMs: Date.now() - started,
+          timeToFirstTokenMs: capture.timeToFirstTokenMs(),
+          partTimings: capture.partTimings(),
+          warnings: capture.warnings(),
+          requestId: request?.id ?? response?.headers?.['x-request-id'] ?? null,
+          responseId: response?.id ?? capture.responseMetadata()?.id ?? null,
+          headersJson: response?.headers ?? null,
+          meta: finish?.providerMetadata ?? null,
+          error: error ? toErrorPayload(error) : null,
+        };
+
+        // don't block stream - the save runs on a later tick
+        saveDeferred(row).catch((err) => {
+          process.emitWarning(
+            err instanceof Error ? err.message : String(err),
+            {
+              code: 'LLM_USAGE_STREAM_SAVE_FAILURE',
+              detail: 'Unable to persist streaming usage log row.',
+            }
+          );
+        });
+      };
+
+      // A pull-based wrapper (rather than a TransformStream) also sees cancellation by the consumer.
+      const reader = stream.getReader();
+      const loggedStream = new ReadableStream<any>({
+        async pull(controller) {
+          let next: ReadableStreamReadResult<any>;
+          try {
+            next = await reader.read();
+          } catch (err) {
+            capture.fail(err);
+            logRow();
+            controller.error(err);
+            return;
           }
-          if (chunk?.type === 'finish') {
-            const modelId = request.body.model ?? model.modelId ??  null;
-
-            const inputArray = request.body.messages ?? request.body.input ?? params.prompt ?? []; []
-            const inputText = inputArray.map((message: any) => JSON.stringify(message) ).join('\n');
-    
-            const inputTokens = chunk.usage.inputTokens ?? null;
-            const outputTokens = chunk.usage.outputTokens ?? null;
-            const totalTokens = chunk.usage.totalTokens ?? null;
-            const cachedInputTokens = chunk.usage.cachedInputTokens ?? null;
-            const reasoningTokens = chunk.usage.reasoningTokens ?? null;
-
-            const row: LLMCallRow = {
-              timestamp: new Date(),
-              modelId: modelId,
-              tags,
-              inputText,
-              contentJson: contentJson,
-              inputTokens,
-              outputTokens,
-              totalTokens,
-              cachedInputTokens,
-              reasoningTokens,
-              requestToolsJson: params.tools ?? null,
-
-              temperature: params.temperature ?? null,
-              topP: params.topP ?? null,
-              maxOutputTokens: params.maxOutputTokens ?? null,
-
-              finishReason: (chunk as any)?.finishReason ?? null,
-              latencyMs: Date.now() - started,
-              warnings: warnings,
-              requestId: request?.id ?? response?.headers?.['x-request-id'] ?? null,
-              responseId: response?.id ?? null,
-              headersJson: response?.headers ?? null,
-              meta: chunk.providerMetadata ?? null,
-              error: error,
-            };
-
-            // don't block stream - use setImmediate to ensure it runs
-            setImmediate(async () => {
-              try {
-                await save(row);
-              } catch (err) {
-                process.emitWarning(
-                  err instanceof Error ? err.message : String(err),
-                  {
-                    code: 'LLM_USAGE_STREAM_SAVE_FAILURE',
-                    detail: 'Unable to persist streaming usage log row.',
-                  }
-                );
-              }
-            });
+          if (next.done) {
+            logRow();
+            controller.close();
+            return;
           }
-          controller.enqueue(chunk);
+          capture.observe(next.value);
+          if (next.value?.type === 'finish') logRow();
+          controller.enqueue(next.value);
+        },
+        async cancel(reason) {
+          logRow();
+          await reader.cancel(reason);
         },
       });
 
-      return { stream: stream.pipeThrough(transformStream), request, response };
+      return { ...streamResult, stream: loggedStream };
     },
 
   }
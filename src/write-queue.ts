@@ -0,0 +1,168 @@
+import type { StorageAdapter } from './storage/types.js';
+import type { LLMCallRow, SaveFn } from './types.js';
+
+export type OverflowPolicy = 'block' | 'drop-newest' | 'drop-oldest';
+
+export type WriteQueueOptions = {
+  maxBatchSize?: number;           // rows written per transaction, default 100
+  flushIntervalMs?: number;        // longest a row waits before being written, default 1000
+  maxQueueSize?: number;           // rows buffered before the overflow policy applies, default 10000
+  overflow?: OverflowPolicy;       // default 'block' (saves wait for room)
+  flushOnExit?: boolean;           // flush on beforeExit, SIGTERM and SIGINT, default true
+};
+
+export type WriteQueue = {
+  save: SaveFn;                    // resolves once the row is queued, not written
+  flush: () => Promise<void>;
+  close: () => Promise<void>;      // flushes and detaches the exit hooks
+};
+
+type BlockedSave = { row: LLMCallRow; resolve: () => void };
+
+/**
+ * Buffers rows in memory and hands them to the storage adapter in batches,
+ * either when `maxBatchSize` rows are waiting or `flushIntervalMs` after the
+ * first one arrived. Adapters with `saveBatch` write each batch in a single
+ * transaction. Failed batches are reported as process warnings and dropped.
+ */
+export function createWriteQueue(storage: StorageAdapter, options: WriteQueueOptions = {}): WriteQueue {
+  const maxBatchSize = Math.max(1, Math.floor(options.maxBatchSize ?? 100));
+  const flushIntervalMs = Math.max(0, options.flushIntervalMs ?? 1000);
+  const maxQueueSize = Math.max(maxBatchSize, Math.floor(options.maxQueueSize ?? 10_000));
+  const overflow = options.overflow ?? 'block';
+
+  const queue: LLMCallRow[] = [];
+  const blocked: BlockedSave[] = [];
+  let timer: NodeJS.Timeout | null = null;
+  let draining: Promise<void> | null = null;
+  let dropped = 0;
+
+  const writeBatch = async (batch: LLMCallRow[]) => {
+    try {
+      if (storage.saveBatch) {
+        await storage.saveBatch(batch);
+      } else {
+        for (const row of batch) await storage.save(row);
+      }
+    } catch (err) {
+      process.emitWarning(err instanceof Error ? err.message : String(err), {
+        code: 'LLM_USAGE_BATCH_SAVE_FAILURE',
+        detail: `Unable to persist a batch of ${batch.length} usage log row(s).`,
+      });
+    }
+  };
+
+  const admitBlocked = () => {
+    while (blocked.length && queue.length < maxQueueSize) {
+      const next = blocked.shift()!;
+      queue.push(next.row);
+      next.resolve();
+    }
+  };
+
+  const drain = (): Promise<void> => {
+    if (!draining) {
+      draining = (async () => {
+        while (queue.length) {
+          const batch = queue.splice(0, maxBatchSize);
+          admitBlocked();
+          await writeBatch(batch);
+        }
+      })().finally(() => {
+        draining = null;
+      });
+    }
+    return draining;
+  };
+
+  const schedule = () => {
+    if (queue.length >= maxBatchSize) {
+      void drain();
+      return;
+    }
+    if (!timer) {
+      timer = setTimeout(() => {
+        timer = null;
+        void drain();
+      }, flushIntervalMs);
+      // Never keep the process alive for logging; the exit hooks flush instead.
+      timer.unref();
+    }
+  };
+
+  const reportDrop = () => {
+    dropped += 1;
+    // Warn on the first drop and then once per full queue's worth.
+    if (dropped % maxQueueSize === 1 || maxQueueSize === 1) {
+      process.emitWarning(`Usage log queue is full; ${dropped} row(s) dropped so far.`, {
+        code: 'LLM_USAGE_QUEUE_FULL',
+        detail: `Overflow policy "${overflow}" discards rows while ${maxQueueSize} are waiting to be written.`,
+      });
+    }
+  };
+
+  const save: SaveFn = async (row) => {
+    if (queue.length < maxQueueSize) {
+      queue.push(row);
+      schedule();
+      return;
+    }
+    if (overflow === 'drop-newest') {
+      reportDrop();
+      return;
+    }
+    if (overflow === 'drop-oldest') {
+      queue.shift();
+      queue.push(row);
+      reportDrop();
+      schedule();
+      return;
+    }
+    await new Promise<void>((resolve) => blocked.push({ row, resolve }));
+    schedule();
+  };
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (queue.length || blocked.length || draining) {
+      await drain();
+    }
+  };
+
+  const detachExitHooks = options.flushOnExit === false ? () => {} : attachExitHooks(flush);
+
+  return {
+    save,
+    flush,
+    close: async () => {
+      detachExitHooks();
+      await flush();
+    },
+  };
+}
+
+function attachExitHooks(flush: () => Promise<void>): () => void {
+  const onBeforeExit = () => {
+    void flush();
+  };
+  const onSignal = (signal: NodeJS.Signals) => {
+    detach();
+    void flush().finally(() => {
+      // Fall back to the default signal behaviour unless the application handles it.
+      if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+    });
+  };
+  const detach = () => {
+    process.off('beforeExit', onBeforeExit);
+    process.off('SIGTERM', onSignal);
+    process.off('SIGINT', onSignal);
+  };
+
+  process.on('beforeExit', onBeforeExit);
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+  return detach;
+}